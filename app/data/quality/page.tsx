@@ -5,6 +5,12 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import {
@@ -15,336 +21,45 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { rawGames } from '@/lib/loadGames';
+import { usesGameSourceDirectory } from '@/lib/gameSources';
 import {
-  games,
-  normaliseNullishString,
-  rawGames,
-  slugify,
-  trimStrings,
-} from '@/lib/loadGames';
-import { GameSchema, type Game } from '@/lib/types';
-
-type UnknownRecord = Record<string, unknown>;
-
-interface AnalysedGame {
-  index: number;
-  derivedId: string;
-  explicitId: string | null;
-  rawName: string | null;
-  normalisedName: string;
-  issues: string[];
-  warnings: string[];
-  validationIssues: string[];
-  included: boolean;
-  duplicateCount?: number;
-}
-
-interface DuplicateGroup {
-  id: string;
-  count: number;
-  names: string[];
-  indices: number[];
-}
-
-interface CoverageMetric {
-  label: string;
-  present: number;
-  total: number;
-}
-
-interface QualityReport {
-  totalRecords: number;
-  includedCount: number;
-  excludedCount: number;
-  flaggedRecords: AnalysedGame[];
-  duplicateGroups: DuplicateGroup[];
-  coverageMetrics: CoverageMetric[];
-  coverageGaps: CoverageMetric[];
-}
-
-const hasContent = (value: unknown): value is string =>
-  typeof value === 'string' && value.trim().length > 0;
-
-const percentage = (present: number, total: number) =>
-  total === 0 ? 0 : Math.round((present / total) * 1000) / 10;
+  FLAGGED_RECORDS_FILE,
+  QUALITY_REPORT_FILE,
+  buildQualityReport,
+  percentage,
+  qualityExportHref,
+  type AnalysedGame,
+} from '@/lib/qualityReport';
+import {
+  appendCoverageSnapshot,
+  buildCoverageTrends,
+  createCoverageSnapshot,
+  readCoverageHistory,
+  today,
+} from '@/lib/coverageHistory';
+import { NOT_DUPLICATES_FILE, readNotDuplicates } from '@/lib/nearDuplicates';
+import { publicFileExists } from '@/lib/validation';
+import { Sparkline } from '@/components/data/sparkline';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/types';
 
 const formatCount = (count: number, singular: string, plural: string) =>
   `${count.toLocaleString()} ${count === 1 ? singular : plural}`;
 
-const buildQualityReport = (): QualityReport => {
-  const analysed: AnalysedGame[] = [];
-  const seenIds = new Set<string>();
-  const firstOccurrence = new Map<string, number>();
-
-  rawGames.forEach((rawGame, index) => {
-    const entry: AnalysedGame = {
-      index,
-      derivedId: '',
-      explicitId: null,
-      rawName: null,
-      normalisedName: '',
-      issues: [],
-      warnings: [],
-      validationIssues: [],
-      included: false,
-    };
-
-    if (!rawGame || typeof rawGame !== 'object' || Array.isArray(rawGame)) {
-      entry.issues.push('Entry is not a valid object and cannot be parsed.');
-      analysed.push(entry);
-      return;
-    }
-
-    const trimmedGame = trimStrings(rawGame) as UnknownRecord;
-
-    const rawNameValue =
-      typeof trimmedGame.name === 'string' ? trimmedGame.name : undefined;
-    entry.rawName = typeof rawNameValue === 'string' ? rawNameValue : null;
-    const normalisedName = normaliseNullishString(rawNameValue) ?? '';
-    entry.normalisedName = normalisedName;
-
-    const explicitIdValue =
-      typeof trimmedGame.id === 'string' ? trimmedGame.id : undefined;
-    entry.explicitId = explicitIdValue && explicitIdValue.length > 0 ? explicitIdValue : null;
-
-    const derivedId =
-      explicitIdValue && explicitIdValue.length > 0
-        ? explicitIdValue
-        : rawNameValue
-        ? slugify(rawNameValue)
-        : '';
-
-    entry.derivedId = derivedId;
-
-    if (!derivedId) {
-      entry.issues.push('Unable to derive a stable id from the available data.');
-    }
-
-    const ageMinRaw =
-      typeof trimmedGame.ageMin === 'number' ? trimmedGame.ageMin : undefined;
-    const ageMaxRaw =
-      typeof trimmedGame.ageMax === 'number' ? trimmedGame.ageMax : undefined;
-    const playersMinRaw =
-      typeof trimmedGame.playersMin === 'number' ? trimmedGame.playersMin : undefined;
-    const playersMaxRaw =
-      typeof trimmedGame.playersMax === 'number' ? trimmedGame.playersMax : undefined;
-
-    let ageMin = ageMinRaw;
-    let ageMax = ageMaxRaw;
-    if (typeof ageMin === 'number' && typeof ageMax === 'number' && ageMin > ageMax) {
-      entry.warnings.push(`Age range inverted (${ageMin}–${ageMax}); values swapped.`);
-      [ageMin, ageMax] = [ageMax, ageMin];
-    }
-
-    let playersMin = playersMinRaw;
-    let playersMax = playersMaxRaw;
-    if (
-      typeof playersMin === 'number' &&
-      typeof playersMax === 'number' &&
-      playersMin > playersMax
-    ) {
-      entry.warnings.push(
-        `Player range inverted (${playersMin}–${playersMax}); values swapped.`,
-      );
-      [playersMin, playersMax] = [playersMax, playersMin];
-    }
-
-    const descriptionStr =
-      typeof trimmedGame.description === 'string' ? trimmedGame.description : null;
-    const categoryStr =
-      typeof trimmedGame.category === 'string' ? trimmedGame.category : null;
-    const prepLevelStr =
-      typeof trimmedGame.prepLevel === 'string' ? trimmedGame.prepLevel : null;
-
-    const candidate: UnknownRecord = {
-      ...trimmedGame,
-      id: derivedId,
-      name: normalisedName,
-      description: normaliseNullishString(descriptionStr),
-      category: normaliseNullishString(categoryStr),
-      prepLevel: normaliseNullishString(prepLevelStr),
-      ageMin,
-      ageMax,
-      playersMin,
-      playersMax,
-    };
-
-    const validation = GameSchema.safeParse(candidate);
-    if (!validation.success) {
-      entry.validationIssues = validation.error.issues.map(issue => {
-        const path = issue.path.join('.');
-        return path ? `${path}: ${issue.message}` : issue.message;
-      });
-    } else {
-      entry.included = true;
-    }
-
-    if (derivedId) {
-      if (!seenIds.has(derivedId)) {
-        seenIds.add(derivedId);
-        firstOccurrence.set(derivedId, index);
-      } else {
-        const firstIndex = firstOccurrence.get(derivedId);
-        entry.issues.push(
-          firstIndex !== undefined
-            ? `Duplicate id; first seen at entry #${firstIndex + 1}.`
-            : 'Duplicate id encountered.',
-        );
-        entry.included = false;
-      }
-    } else {
-      entry.included = false;
-    }
-
-    if (entry.validationIssues.length > 0) {
-      entry.included = false;
-    }
-
-    analysed.push(entry);
-  });
-
-  const idBuckets = new Map<string, AnalysedGame[]>();
-  analysed.forEach(record => {
-    if (!record.derivedId) return;
-    const bucket = idBuckets.get(record.derivedId);
-    if (bucket) {
-      bucket.push(record);
-    } else {
-      idBuckets.set(record.derivedId, [record]);
-    }
-  });
-
-  const duplicateGroups: DuplicateGroup[] = [];
-  idBuckets.forEach((records, id) => {
-    if (records.length > 1) {
-      const first = records[0];
-      if (first) {
-        first.warnings.push(
-          `ID shared with ${records.length - 1} other record${records.length - 1 === 1 ? '' : 's'}.`,
-        );
-      }
-      records.forEach(record => {
-        record.duplicateCount = records.length;
-      });
-      duplicateGroups.push({
-        id,
-        count: records.length,
-        names: records.map(record => record.normalisedName || record.rawName || '(unnamed)'),
-        indices: records.map(record => record.index + 1),
-      });
-    }
-  });
-
-  duplicateGroups.sort((a, b) => {
-    if (b.count === a.count) {
-      return Math.min(...a.indices) - Math.min(...b.indices);
-    }
-    return b.count - a.count;
-  });
-
-  const flaggedRecords = analysed
-    .filter(
-      record =>
-        record.issues.length > 0 ||
-        record.warnings.length > 0 ||
-        record.validationIssues.length > 0,
-    )
-    .sort((a, b) => {
-      if (a.included === b.included) {
-        return a.index - b.index;
-      }
-      return a.included ? 1 : -1;
-    });
+const qualityReport = buildQualityReport(rawGames, {
+  fileExists: publicFileExists,
+  notDuplicates: readNotDuplicates(),
+});
 
-  const includedCount = analysed.filter(record => record.included).length;
-  const totalRecords = rawGames.length;
+// The committed history plus this build, so the latest point is always current
+const coverageHistory = appendCoverageSnapshot(
+  readCoverageHistory(),
+  createCoverageSnapshot(today(), qualityReport)
+);
+const coverageTrends = buildCoverageTrends(coverageHistory, qualityReport.coverageMetrics);
 
-  const coverageMetrics = createCoverageMetrics(games);
-  const coverageGaps = coverageMetrics
-    .filter(metric => metric.total > 0 && metric.present < metric.total)
-    .sort((a, b) => a.present / a.total - b.present / b.total)
-    .slice(0, 3);
-
-  return {
-    totalRecords,
-    includedCount,
-    excludedCount: totalRecords - includedCount,
-    flaggedRecords,
-    duplicateGroups,
-    coverageMetrics,
-    coverageGaps,
-  };
-};
-
-const createCoverageMetrics = (dataset: Game[]): CoverageMetric[] => {
-  const total = dataset.length;
-  const metrics: CoverageMetric[] = [
-    {
-      label: 'Descriptions',
-      present: dataset.filter(game => hasContent(game.description)).length,
-      total,
-    },
-    {
-      label: 'Equipment details',
-      present: dataset.filter(game => hasContent(game.equipment)).length,
-      total,
-    },
-    {
-      label: 'Recommended player notes',
-      present: dataset.filter(game => hasContent(game.recommendedPlayersText)).length,
-      total,
-    },
-    {
-      label: 'Age guidance provided',
-      present: dataset.filter(game => game.ageMin !== null || game.ageMax !== null).length,
-      total,
-    },
-    {
-      label: 'Player counts provided',
-      present: dataset.filter(game => game.playersMin !== null || game.playersMax !== null).length,
-      total,
-    },
-    {
-      label: 'General rules listed',
-      present: dataset.filter(game => game.generalRules.length > 0).length,
-      total,
-    },
-    {
-      label: 'Variations captured',
-      present: dataset.filter(game => game.variations.length > 0).length,
-      total,
-    },
-    {
-      label: 'Skills developed noted',
-      present: dataset.filter(game => game.skillsDeveloped.length > 0).length,
-      total,
-    },
-    {
-      label: 'Regional popularity noted',
-      present: dataset.filter(game => game.regionalPopularity.length > 0).length,
-      total,
-    },
-    {
-      label: 'Historical notes present',
-      present: dataset.filter(game => hasContent(game.historicalNotes)).length,
-      total,
-    },
-    {
-      label: 'External links added',
-      present: dataset.filter(game => game.links.length > 0).length,
-      total,
-    },
-    {
-      label: 'Keyword tags applied',
-      present: dataset.filter(game => game.keywords.length > 0).length,
-      total,
-    },
-  ];
-
-  return metrics;
-};
-
-const qualityReport = buildQualityReport();
+const formatChange = (change: number | null) =>
+  change === null || change === 0 ? '—' : `${change > 0 ? '+' : ''}${change} pts`;
 
 const getDisplayName = (record: AnalysedGame) =>
   record.normalisedName || record.rawName || `Record #${record.index + 1}`;
@@ -356,8 +71,14 @@ export default function DataQualityDiagnosticsPage() {
     excludedCount,
     flaggedRecords,
     duplicateGroups,
+    nearDuplicates,
     coverageMetrics,
     coverageGaps,
+    unresolvedRelated,
+    recordsWithUnknownKeys,
+    migratedCount,
+    appliedFixes,
+    contentLint,
   } = qualityReport;
 
   return (
@@ -368,10 +89,22 @@ export default function DataQualityDiagnosticsPage() {
         </p>
         <h1 className="text-3xl font-heading">Data Quality Diagnostics</h1>
         <p className="max-w-3xl text-muted-foreground">
-          This report inspects the source data in <code>public/games.json</code>,
+          This report inspects the source data in{' '}
+          <code>{usesGameSourceDirectory() ? 'data/games/' : 'public/games.json'}</code>,
           highlighting which records make it into the catalogue, where
           validation failed, and which fields still need attention.
         </p>
+        <p className="max-w-3xl text-sm text-muted-foreground">
+          Production builds also publish this report as{' '}
+          <a className="font-medium text-primary underline" href={qualityExportHref(QUALITY_REPORT_FILE)}>
+            JSON
+          </a>{' '}
+          and the flagged records as{' '}
+          <a className="font-medium text-primary underline" href={qualityExportHref(FLAGGED_RECORDS_FILE)}>
+            CSV
+          </a>
+          . Run <code>npm run quality</code> for the same report in a terminal.
+        </p>
       </header>
 
       <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
@@ -456,6 +189,56 @@ export default function DataQualityDiagnosticsPage() {
         </CardContent>
       </Card>
 
+      <Card className="shadow-subtle">
+        <CardHeader>
+          <CardTitle className="text-xl">Coverage trend</CardTitle>
+          <CardDescription>
+            {coverageHistory.length > 1
+              ? `Coverage across ${formatCount(coverageHistory.length, 'snapshot', 'snapshots')} from ${coverageHistory[0].date} to ${coverageHistory[coverageHistory.length - 1].date}.`
+              : 'Only this build has been measured so far.'}{' '}
+            Run <code>npm run quality:history</code> after editing the data to record a snapshot.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead>Trend</TableHead>
+                <TableHead className="text-right">First</TableHead>
+                <TableHead className="text-right">Latest</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coverageTrends.map(trend => (
+                <TableRow key={trend.label}>
+                  <TableCell className="font-medium">{trend.label}</TableCell>
+                  <TableCell>
+                    <Sparkline points={trend.points} label={`${trend.label} coverage over time`} />
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {trend.first === null ? '—' : `${trend.first}%`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {trend.latest === null ? '—' : `${trend.latest}%`}
+                  </TableCell>
+                  <TableCell
+                    className={
+                      trend.change !== null && trend.change < 0
+                        ? 'text-right text-destructive'
+                        : 'text-right text-muted-foreground'
+                    }
+                  >
+                    {formatChange(trend.change)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
       {coverageGaps.length > 0 && (
         <Card className="shadow-subtle">
           <CardHeader>
@@ -525,6 +308,251 @@ export default function DataQualityDiagnosticsPage() {
         </Card>
       )}
 
+      {(nearDuplicates.pairs.length > 0 || nearDuplicates.staleIgnores.length > 0) && (
+        <Card className="shadow-subtle">
+          <CardHeader>
+            <CardTitle className="text-xl">Possible duplicates</CardTitle>
+            <CardDescription>
+              Published games with similar names or regional names, descriptions, and keywords. Merge
+              true duplicates; for pairs that are different games, run{' '}
+              <code>npm run quality -- --not-duplicate &lt;id&gt; &lt;id&gt;</code> to add them to{' '}
+              <code>{NOT_DUPLICATES_FILE}</code>
+              {nearDuplicates.ignoredCount > 0
+                ? `, which already sets aside ${formatCount(nearDuplicates.ignoredCount, 'pair', 'pairs')}.`
+                : '.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 pt-0">
+            {nearDuplicates.pairs.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Games</TableHead>
+                    <TableHead className="w-24">Score</TableHead>
+                    <TableHead>Evidence</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {nearDuplicates.pairs.map(pair => (
+                    <TableRow key={pair.ids.join('|')}>
+                      <TableCell>
+                        <div className="space-y-2 text-sm">
+                          {pair.names.map((name, idx) => (
+                            <div key={pair.ids[idx]} className="space-y-1">
+                              <div className="font-medium text-foreground">{name}</div>
+                              <code className="rounded bg-muted px-2 py-1 text-xs">{pair.ids[idx]}</code>
+                            </div>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={pair.score >= 0.5 ? 'destructive' : 'secondary'}>
+                          {Math.round(pair.score * 100)}%
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+                          {pair.reasons.map(reason => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {nearDuplicates.staleIgnores.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+                {nearDuplicates.staleIgnores.map(entry => (
+                  <li key={entry.ids.join('|')}>
+                    <code>{entry.ids.join(' + ')}</code> is listed as not duplicates, but one of the
+                    games no longer exists; remove it from the list.
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {unresolvedRelated.length > 0 && (
+        <Card className="shadow-subtle">
+          <CardHeader>
+            <CardTitle className="text-xl">Unresolved related games</CardTitle>
+            <CardDescription>
+              These <code>relatedGames</code> entries don’t match any published game by id, name,
+              or regional name. Add the missing game, or correct the reference to an existing title.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-64">Game</TableHead>
+                  <TableHead>Reference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unresolvedRelated.map((entry, idx) => (
+                  <TableRow key={`${entry.gameId}-${idx}`}>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div className="font-medium text-foreground">{entry.gameName}</div>
+                        <code className="rounded bg-muted px-1.5 py-0.5 text-[11px] text-muted-foreground">
+                          {entry.gameId}
+                        </code>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1 text-sm">
+                        <div className="font-medium text-foreground">“{entry.reference}”</div>
+                        {entry.candidates.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Ambiguous; matches {entry.candidates.join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {appliedFixes.length > 0 && (
+        <Card className="shadow-subtle">
+          <CardHeader>
+            <CardTitle className="text-xl">Fixes applied on load</CardTitle>
+            <CardDescription>
+              Changes <code>normaliseRecord</code> makes before validation. They don’t stop a
+              record loading, but fixing them in the source keeps it tidy.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="flex flex-wrap gap-2">
+              {appliedFixes.map(fix => (
+                <Badge key={fix.type} variant="outline" className="gap-2 px-3 py-1 text-sm">
+                  {fix.label}
+                  <span className="font-semibold">{fix.count.toLocaleString()}</span>
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-subtle">
+        <CardHeader>
+          <CardTitle className="text-xl">Content lint</CardTitle>
+          <CardDescription>
+            Problems the schema allows but readers notice, checked by the rules in{' '}
+            <code>lib/contentLint.ts</code>. Run <code>npm run games -- fix</code> to apply the
+            autofixes; the rest need a person.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Accordion type="multiple" className="space-y-2">
+            {contentLint.rules.map(rule => {
+              const findings = contentLint.findings.filter(finding => finding.ruleId === rule.id);
+              return (
+                <AccordionItem key={rule.id} value={rule.id} disabled={findings.length === 0}>
+                  <AccordionTrigger className="gap-3 text-left">
+                    <span className="flex flex-1 flex-wrap items-center gap-2">
+                      <code className="rounded bg-muted px-2 py-1 text-xs">{rule.id}</code>
+                      <Badge variant={rule.severity === 'error' ? 'destructive' : 'secondary'}>
+                        {rule.severity}
+                      </Badge>
+                      <span className="text-sm font-normal text-muted-foreground">{rule.description}</span>
+                    </span>
+                    <span className="flex items-center gap-2 text-sm">
+                      {rule.fixableCount > 0 && (
+                        <Badge variant="outline">{rule.fixableCount.toLocaleString()} fixable</Badge>
+                      )}
+                      <span className="font-semibold">{findings.length.toLocaleString()}</span>
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <ul className="space-y-1 text-sm text-muted-foreground">
+                      {findings.map(finding => (
+                        <li key={`${finding.index}-${finding.path}`}>
+                          <span className="font-medium text-foreground">{finding.name}</span>{' '}
+                          <span className="text-xs">
+                            Entry #{(finding.index + 1).toLocaleString()} › {finding.path}
+                          </span>
+                          : {finding.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      {(recordsWithUnknownKeys.length > 0 || migratedCount > 0) && (
+        <Card className="shadow-subtle">
+          <CardHeader>
+            <CardTitle className="text-xl">Schema migrations &amp; unknown fields</CardTitle>
+            <CardDescription>
+              Records are upgraded to schema version {CURRENT_SCHEMA_VERSION} on load. Fields the
+              schema doesn’t declare are dropped; add them to <code>GameSchema</code> or move them
+              with a migration in <code>lib/migrations.ts</code>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 pt-0">
+            {migratedCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {formatCount(migratedCount, 'record is', 'records are')} stored at an older schema
+                version. Run <code>npm run games -- migrate</code> to upgrade the source.
+              </p>
+            )}
+            {recordsWithUnknownKeys.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-64">Record</TableHead>
+                    <TableHead>Dropped fields</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recordsWithUnknownKeys.map(record => (
+                    <TableRow key={`unknown-${record.index}`}>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="font-medium text-foreground">
+                            {getDisplayName(record)}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            Entry #{(record.index + 1).toLocaleString()}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-2">
+                          {record.unknownKeys.map(key => (
+                            <code
+                              key={key}
+                              className="rounded bg-muted px-1.5 py-0.5 text-[11px] text-muted-foreground"
+                            >
+                              {key}
+                            </code>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="shadow-subtle">
         <CardHeader>
           <CardTitle className="text-xl">Records needing attention</CardTitle>
@@ -0,0 +1,170 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Download, Link2, Printer, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GameGrid } from "@/components/game/game-grid";
+import { useShortlists } from "@/hooks/use-shortlists";
+import {
+  DEFAULT_SHORTLIST_ID,
+  decodeShortlistParams,
+  encodeShortlistParams,
+} from "@/lib/shortlists";
+import { buildPrintHref } from "@/lib/print";
+import { Game } from "@/lib/types";
+
+export function FavouritesClient({ allGames }: { allGames: Game[] }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { shortlists, renameList, deleteList, importList } = useShortlists();
+  const [selectedId, setSelectedId] = useState(DEFAULT_SHORTLIST_ID);
+
+  const gamesById = useMemo(
+    () => new Map(allGames.map((game) => [game.id, game])),
+    [allGames]
+  );
+
+  const incoming = useMemo(
+    () => decodeShortlistParams(searchParams),
+    [searchParams]
+  );
+  const incomingGames = incoming
+    ? incoming.gameIds.filter((id) => gamesById.has(id))
+    : [];
+
+  const selected =
+    shortlists.find((list) => list.id === selectedId) ?? shortlists[0];
+  const selectedGames = selected.gameIds
+    .map((id) => gamesById.get(id))
+    .filter((game): game is Game => Boolean(game));
+
+  const dismissImport = () => router.replace(pathname);
+
+  const handleImport = () => {
+    if (!incoming) return;
+    const id = importList({ name: incoming.name, gameIds: incomingGames });
+    setSelectedId(id);
+    toast.success(`Imported “${incoming.name}”`);
+    dismissImport();
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${window.location.pathname}?${encodeShortlistParams(
+      { name: selected.name, gameIds: selected.gameIds }
+    )}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Share link copied");
+    } catch {
+      window.prompt("Copy this link to share the list", url);
+    }
+  };
+
+  return (
+    <section className="space-y-8">
+      <header className="space-y-2">
+        <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
+          Shortlists
+        </p>
+        <h1 className="font-heading text-3xl">Favourites</h1>
+        <p className="max-w-2xl text-muted-foreground">
+          Star games from the catalogue to keep them here. Lists are saved in this
+          browser; share a link to pass one on.
+        </p>
+      </header>
+
+      {incoming && (
+        <Alert>
+          <Download className="h-4 w-4" />
+          <AlertTitle>Import “{incoming.name}”?</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>
+              Someone shared a list of {incomingGames.length} game
+              {incomingGames.length === 1 ? "" : "s"} with you.
+              {incomingGames.length < incoming.gameIds.length &&
+                ` ${incoming.gameIds.length - incomingGames.length} are no longer in the catalogue and will be skipped.`}
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleImport} disabled={incomingGames.length === 0}>
+                Import list
+              </Button>
+              <Button size="sm" variant="ghost" onClick={dismissImport}>
+                Dismiss
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs value={selected.id} onValueChange={setSelectedId}>
+        <TabsList className="h-auto flex-wrap justify-start">
+          {shortlists.map((list) => (
+            <TabsTrigger key={list.id} value={list.id} className="gap-2">
+              {list.name || "Untitled list"}
+              <span className="text-xs text-muted-foreground">{list.gameIds.length}</span>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          value={selected.name}
+          onChange={(event) => renameList(selected.id, event.target.value)}
+          aria-label="List name"
+          className="h-10 max-w-xs rounded-full bg-white"
+        />
+        <Button
+          variant="outline"
+          className="gap-2 rounded-full border-brand-sprout/40 bg-white"
+          onClick={handleShare}
+          disabled={selected.gameIds.length === 0}
+        >
+          <Link2 className="h-4 w-4" />
+          Copy share link
+        </Button>
+        {selectedGames.length > 0 && (
+          <Button
+            asChild
+            variant="outline"
+            className="gap-2 rounded-full border-brand-sprout/40 bg-white"
+          >
+            <Link href={buildPrintHref(selectedGames.map((game) => game.id))}>
+              <Printer className="h-4 w-4" />
+              Print cards
+            </Link>
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          className="gap-2 rounded-full text-destructive hover:bg-destructive/10"
+          onClick={() => {
+            deleteList(selected.id);
+            setSelectedId(DEFAULT_SHORTLIST_ID);
+          }}
+        >
+          <Trash2 className="h-4 w-4" />
+          {selected.id === DEFAULT_SHORTLIST_ID ? "Clear list" : "Delete list"}
+        </Button>
+      </div>
+
+      {selectedGames.length === 0 ? (
+        <div className="flex flex-col items-center gap-3 rounded-3xl border border-dashed border-brand-sprout/40 bg-surface-raised p-12 text-center">
+          <Star className="h-8 w-8 text-brand-marigold" />
+          <p className="max-w-md text-text-brand/70">
+            Nothing saved here yet. Use the star on any game to add it to this list.
+          </p>
+        </div>
+      ) : (
+        <GameGrid games={selectedGames} />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,19 @@
+// app/favourites/page.tsx
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import { games } from '@/lib/loadGames';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FavouritesClient } from './favourites-client';
+
+export const metadata: Metadata = {
+  title: 'Favourites · ItsAllFunAndGames',
+  description: 'Your saved shortlists of games.',
+};
+
+export default function FavouritesPage() {
+  return (
+    <Suspense fallback={<Skeleton className="h-64 rounded-3xl" />}>
+      <FavouritesClient allGames={games} />
+    </Suspense>
+  );
+}
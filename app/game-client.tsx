@@ -12,18 +12,55 @@ import { useDebounce } from "use-debounce";
 import Fuse from "fuse.js";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
 import {
+  ArrowUpDown,
+  Dices,
   Filter,
   PanelLeftClose,
   PanelLeftOpen,
   X,
 } from "lucide-react";
 import { cn, prettifyFilterValue } from "@/lib/utils";
-import { FacetKey, facetKeys, filterMeta } from "@/lib/constants";
+import {
+  FacetKey,
+  FacetMode,
+  FilterGroupKey,
+  RangeKey,
+  SortMode,
+  facetKeys,
+  filterMeta,
+  rangeKeys,
+  rangeMeta,
+  sortMeta,
+  sortModes,
+} from "@/lib/constants";
+import {
+  NumericRange,
+  formatRangeLabel,
+  formatRangeParam,
+  parseRangeParam,
+  rangesEqual,
+} from "@/lib/ranges";
+import {
+  countFacetOptions,
+  countRangePresets,
+  filterGames,
+} from "@/lib/faceting";
+import { sortGames } from "@/lib/sorting";
+import { pickSeededGame, rememberPick, rollSurprise } from "@/lib/surprise";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { FilterSidebar } from "@/components/game/filter-sidebar";
 import { SearchBar } from "@/components/game/search-bar";
 import { GameGrid } from "@/components/game/game-grid";
 import { PaginationControl } from "@/components/game/pagination-control";
+import { SurprisePreview } from "@/components/game/surprise-preview";
 
 const fuseOptions = {
   keys: ["name", "description", "keywords"],
@@ -37,11 +74,21 @@ type Facets = Record<FacetKey, string[]>;
 type FiltersState = {
   query: string;
   page: number;
+  sort: SortMode;
+  // Set while a "Surprise me" pick is open; shared links reproduce the pick
+  seed: string | null;
 } & {
   [K in FacetKey]: string[];
+} & {
+  [K in RangeKey]: NumericRange | null;
+} & {
+  modes: Record<FacetKey, FacetMode>;
 };
 
 const DEFAULT_PAGE = 1;
+const DEFAULT_MODE: FacetMode = "any";
+const DEFAULT_SORT: SortMode = "relevance";
+const RECENT_PICKS_KEY = "itsallfunandgames-recent-picks";
 
 const createEmptySelections = (): Record<FacetKey, string[]> =>
   facetKeys.reduce((acc, key) => {
@@ -49,12 +96,30 @@ const createEmptySelections = (): Record<FacetKey, string[]> =>
     return acc;
   }, {} as Record<FacetKey, string[]>);
 
+const createEmptyRanges = (): Record<RangeKey, NumericRange | null> =>
+  rangeKeys.reduce((acc, key) => {
+    acc[key] = null;
+    return acc;
+  }, {} as Record<RangeKey, NumericRange | null>);
+
+const createDefaultModes = (): Record<FacetKey, FacetMode> =>
+  facetKeys.reduce((acc, key) => {
+    acc[key] = DEFAULT_MODE;
+    return acc;
+  }, {} as Record<FacetKey, FacetMode>);
+
 const createDefaultFilters = (): FiltersState => ({
   query: "",
   page: DEFAULT_PAGE,
+  sort: DEFAULT_SORT,
+  seed: null,
   ...createEmptySelections(),
+  ...createEmptyRanges(),
+  modes: createDefaultModes(),
 });
 
+const modeParamName = (key: FacetKey) => `${key}.mode`;
+
 const createEmptySearches = (): Record<FacetKey, string> =>
   facetKeys.reduce((acc, key) => {
     acc[key] = "";
@@ -72,12 +137,17 @@ const parsePageParam = (value: string | null) => {
   return parsed;
 };
 
+const parseSortParam = (value: string | null): SortMode =>
+  sortModes.find((mode) => mode === value) ?? DEFAULT_SORT;
+
 const buildFiltersFromParams = (
   params: ReadonlyURLSearchParams
 ): FiltersState => {
   const next = createDefaultFilters();
   next.query = params.get("q") ?? "";
   next.page = parsePageParam(params.get("page"));
+  next.sort = parseSortParam(params.get("sort"));
+  next.seed = params.get("seed")?.trim() || null;
 
   facetKeys.forEach((key) => {
     const values = params
@@ -89,6 +159,14 @@ const buildFiltersFromParams = (
         a.localeCompare(b)
       );
     }
+    const mode = params.get(modeParamName(key)) as FacetMode | null;
+    if (mode && filterMeta[key].modes.includes(mode)) {
+      next.modes[key] = mode;
+    }
+  });
+
+  rangeKeys.forEach((key) => {
+    next[key] = parseRangeParam(params.get(key));
   });
 
   return next;
@@ -100,16 +178,30 @@ const arraysEqual = (a: string[], b: string[]) => {
 };
 
 const areFiltersEqual = (a: FiltersState, b: FiltersState) => {
-  if (a.query !== b.query || a.page !== b.page) return false;
-  return facetKeys.every((key) => arraysEqual(a[key], b[key]));
+  if (
+    a.query !== b.query ||
+    a.page !== b.page ||
+    a.sort !== b.sort ||
+    a.seed !== b.seed
+  ) {
+    return false;
+  }
+  return (
+    facetKeys.every(
+      (key) => arraysEqual(a[key], b[key]) && a.modes[key] === b.modes[key]
+    ) &&
+    rangeKeys.every((key) => rangesEqual(a[key], b[key]))
+  );
 };
 
 export function GameClient({
   allGames,
   facets,
+  ranges,
 }: {
   allGames: Game[];
   facets: Facets;
+  ranges: RangeKey[];
 }) {
   const router = useRouter();
   const pathname = usePathname();
@@ -117,6 +209,10 @@ export function GameClient({
   const perPage = 12;
 
   const fuse = useMemo(() => new Fuse(allGames, fuseOptions), [allGames]);
+  const sourceOrder = useMemo(
+    () => new Map(allGames.map((game, index) => [game.id, index])),
+    [allGames]
+  );
 
   const [filters, setFilters] = useState<FiltersState>(() =>
     buildFiltersFromParams(searchParams)
@@ -127,91 +223,61 @@ export function GameClient({
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [isFilterRailCollapsed, setIsFilterRailCollapsed] = useState(false);
   const [isFilterSheetOpen, setIsFilterSheetOpen] = useState(false);
-  const [pendingScrollKey, setPendingScrollKey] = useState<FacetKey | null>(
-    null
-  );
+  const [pendingScrollKey, setPendingScrollKey] =
+    useState<FilterGroupKey | null>(null);
   const closeFilterSheet = () => setIsFilterSheetOpen(false);
   const inputRef = useRef<HTMLInputElement>(null);
-  const initialExpandedFiltersRef = useRef<FacetKey[] | null>(null);
+  const recentPicksRef = useRef<string[]>([]);
+  const initialExpandedFiltersRef = useRef<FilterGroupKey[] | null>(null);
 
   if (initialExpandedFiltersRef.current === null) {
-    initialExpandedFiltersRef.current = facetKeys.filter(
-      (key) => filters[key].length > 0
-    );
+    initialExpandedFiltersRef.current = [
+      ...facetKeys.filter((key) => filters[key].length > 0),
+      ...rangeKeys.filter((key) => filters[key] !== null),
+    ];
   }
 
   const [debouncedQuery] = useDebounce(filters.query, 300);
 
-  const filteredGames = useMemo(() => {
+  const searchResults = useMemo(() => {
     const trimmedQuery = debouncedQuery.trim();
-    const searchResults = trimmedQuery
+    return trimmedQuery
       ? fuse.search(trimmedQuery).map((res) => res.item)
       : allGames;
+  }, [allGames, debouncedQuery, fuse]);
 
-    return searchResults.filter((game) => {
-      const {
-        category: selectedCategories,
-        tags: selectedTags,
-        traditionality: selectedTraditionality,
-        prepLevel: selectedPrepLevels,
-        skillsDeveloped: selectedSkills,
-        regionalPopularity: selectedRegions,
-      } = filters;
-
-      if (
-        selectedCategories.length > 0 &&
-        (!game.category || !selectedCategories.includes(game.category))
-      ) {
-        return false;
-      }
-
-      if (
-        selectedTags.length > 0 &&
-        !(game.tags || []).some((tag) => selectedTags.includes(tag))
-      ) {
-        return false;
-      }
-
-      if (
-        selectedTraditionality.length > 0 &&
-        (!game.traditionality ||
-          !selectedTraditionality.includes(game.traditionality))
-      ) {
-        return false;
-      }
+  const filteredGames = useMemo(
+    () => filterGames(searchResults, filters),
+    [searchResults, filters]
+  );
 
-      if (
-        selectedPrepLevels.length > 0 &&
-        (!game.prepLevel || !selectedPrepLevels.includes(game.prepLevel))
-      ) {
-        return false;
-      }
+  const sortedGames = useMemo(
+    () =>
+      sortGames(filteredGames, filters.sort, {
+        hasQuery: debouncedQuery.trim().length > 0,
+        sourceOrder,
+      }),
+    [filteredGames, filters.sort, debouncedQuery, sourceOrder]
+  );
 
-      if (
-        selectedSkills.length > 0 &&
-        !(game.skillsDeveloped || []).some((skill) =>
-          selectedSkills.includes(skill)
-        )
-      ) {
-        return false;
-      }
+  const facetCounts = useMemo(
+    () => countFacetOptions(searchResults, filters, facets),
+    [searchResults, filters, facets]
+  );
 
-      if (
-        selectedRegions.length > 0 &&
-        !(game.regionalPopularity || []).some((region) =>
-          selectedRegions.includes(region)
-        )
-      ) {
-        return false;
-      }
+  const rangeCounts = useMemo(
+    () => countRangePresets(searchResults, filters),
+    [searchResults, filters]
+  );
 
-      return true;
-    });
-  }, [allGames, debouncedQuery, filters, fuse]);
+  const surprisePick = useMemo(
+    () => (filters.seed ? pickSeededGame(filteredGames, filters.seed) : null),
+    [filteredGames, filters.seed]
+  );
 
   const totalPages = Math.ceil(filteredGames.length / perPage);
   const currentPage = Math.min(filters.page, totalPages || 1);
-  const paginatedGames = filteredGames.slice(
+  const paginatedGames = sortedGames.slice(
     (currentPage - 1) * perPage,
     currentPage * perPage
   );
@@ -225,8 +291,18 @@ export function GameClient({
       filters[key].forEach((value) => {
         params.append(key, value);
       });
+      if (filters.modes[key] !== DEFAULT_MODE) {
+        params.set(modeParamName(key), filters.modes[key]);
+      }
+    });
+
+    rangeKeys.forEach((key) => {
+      const range = filters[key];
+      if (range) params.set(key, formatRangeParam(range));
     });
 
+    if (filters.sort !== DEFAULT_SORT) params.set("sort", filters.sort);
+    if (filters.seed) params.set("seed", filters.seed);
     if (currentPage > 1) params.set("page", String(currentPage));
 
     const search = params.toString();
@@ -247,6 +323,35 @@ export function GameClient({
     );
   }, [searchParams]);
 
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(
+        window.sessionStorage.getItem(RECENT_PICKS_KEY) ?? "[]"
+      );
+      if (Array.isArray(stored)) {
+        recentPicksRef.current = stored.filter(
+          (id): id is string => typeof id === "string"
+        );
+      }
+    } catch {
+      // Unreadable history just means nothing is avoided
+    }
+  }, []);
+
+  // Picks opened from a shared link count as recent too
+  useEffect(() => {
+    if (!surprisePick) return;
+    recentPicksRef.current = rememberPick(recentPicksRef.current, surprisePick.id);
+    try {
+      window.sessionStorage.setItem(
+        RECENT_PICKS_KEY,
+        JSON.stringify(recentPicksRef.current)
+      );
+    } catch {
+      // Storage can be disabled; the in-memory history still works
+    }
+  }, [surprisePick]);
+
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
@@ -297,10 +402,35 @@ export function GameClient({
     });
   };
 
+  const updateRange = (key: RangeKey, range: NumericRange | null) => {
+    setFilters((prev) => {
+      if (rangesEqual(prev[key], range)) return prev;
+      return { ...prev, [key]: range, page: DEFAULT_PAGE };
+    });
+  };
+
+  const updateFacetMode = (key: FacetKey, mode: FacetMode) => {
+    setFilters((prev) => {
+      if (prev.modes[key] === mode) return prev;
+      return {
+        ...prev,
+        modes: { ...prev.modes, [key]: mode },
+        page: DEFAULT_PAGE,
+      };
+    });
+  };
+
   const clearFilterGroup = (key: FacetKey) => {
     setFilters((prev) => {
-      if (prev[key].length === 0) return prev;
-      return { ...prev, [key]: [], page: DEFAULT_PAGE };
+      if (prev[key].length === 0 && prev.modes[key] === DEFAULT_MODE) {
+        return prev;
+      }
+      return {
+        ...prev,
+        [key]: [],
+        modes: { ...prev.modes, [key]: DEFAULT_MODE },
+        page: DEFAULT_PAGE,
+      };
     });
     setFilterSearches((prev) => ({ ...prev, [key]: "" }));
   };
@@ -310,6 +440,35 @@ export function GameClient({
     setFilterSearches(createEmptySearches());
   };
 
+  const handleSortChange = (sort: SortMode) => {
+    setFilters((current) =>
+      current.sort === sort ? current : { ...current, sort, page: DEFAULT_PAGE }
+    );
+  };
+
+  const handleSurprise = () => {
+    const roll = rollSurprise(filteredGames, recentPicksRef.current);
+    if (!roll) return;
+    setFilters((current) => ({ ...current, seed: roll.seed }));
+  };
+
+  const closeSurprise = () => {
+    setFilters((current) =>
+      current.seed === null ? current : { ...current, seed: null }
+    );
+  };
+
+  const copySurpriseLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied", {
+        description: "Anyone opening it with these filters gets the same pick.",
+      });
+    } catch {
+      window.prompt("Copy this link to share the pick", window.location.href);
+    }
+  };
+
   const handlePageChange = (page: number) => {
     setFilters((f) => ({ ...f, page: Math.max(page, DEFAULT_PAGE) }));
   };
@@ -327,12 +486,22 @@ export function GameClient({
   const activeFilters = useMemo(
     () =>
       facetKeys.flatMap((key) =>
-        filters[key].map((value) => ({ key, value }))
+        filters[key].map((value) => ({ key, value, mode: filters.modes[key] }))
       ),
     [filters]
   );
 
-  const hasActiveFilters = activeFilters.length > 0;
+  const activeRanges = useMemo(
+    () =>
+      rangeKeys.flatMap((key) => {
+        const range = filters[key];
+        return range ? [{ key, range }] : [];
+      }),
+    [filters]
+  );
+
+  const activeFilterCount = activeFilters.length + activeRanges.length;
+  const hasActiveFilters = activeFilterCount > 0;
 
   const trimmedQuery = filters.query.trim();
   const resultsCount = filteredGames.length;
@@ -369,7 +538,7 @@ export function GameClient({
     inputRef.current?.blur();
   };
 
-  const openFilterSheet = (key?: FacetKey) => {
+  const openFilterSheet = (key?: FilterGroupKey) => {
     if (key) {
       setPendingScrollKey(key);
     }
@@ -382,6 +551,7 @@ export function GameClient({
         <FilterSidebar
           filters={filters}
           facets={facets}
+          ranges={ranges}
           filterSearches={filterSearches}
           setFilterSearches={setFilterSearches}
           isFilterRailCollapsed={isFilterRailCollapsed}
@@ -390,6 +560,10 @@ export function GameClient({
           closeFilterSheet={closeFilterSheet}
           resetFilters={resetFilters}
           updateFilterValue={updateFilterValue}
+          updateFacetMode={updateFacetMode}
+          updateRange={updateRange}
+          facetCounts={facetCounts}
+          rangeCounts={rangeCounts}
           clearFilterGroup={clearFilterGroup}
           openFilterSheet={openFilterSheet}
           initialExpandedFilters={initialExpandedFiltersRef.current ?? []}
@@ -419,7 +593,6 @@ export function GameClient({
             <SearchBar
               query={filters.query}
               setQuery={(q) => setFilters(prev => ({ ...prev, query: q, page: DEFAULT_PAGE }))}
-              isSearchFocused={isSearchFocused}
               setIsSearchFocused={setIsSearchFocused}
               showSuggestions={showSuggestions}
               suggestions={suggestions}
@@ -438,10 +611,20 @@ export function GameClient({
               Filters
               {hasActiveFilters && (
                 <Badge className="ml-1 rounded-full bg-surface-highlight px-2 py-1 text-[11px] font-semibold text-brand-sprout">
-                  {activeFilters.length}
+                  {activeFilterCount}
                 </Badge>
               )}
             </Button>
+
+            <Button
+              type="button"
+              className="inline-flex flex-shrink-0 items-center gap-2 rounded-full bg-brand-marigold px-4 py-2 text-sm font-semibold text-text-brand hover:bg-brand-marigold-dark focus-visible:ring-brand-sprout"
+              onClick={handleSurprise}
+              disabled={filteredGames.length === 0}
+            >
+              <Dices className="h-4 w-4" />
+              Surprise me
+            </Button>
           </header>
 
           <div className="rounded-3xl border border-brand-sprout/20 bg-surface-raised/90 p-6 shadow-sm backdrop-blur">
@@ -452,6 +635,27 @@ export function GameClient({
                 </h1>
                 <p className="mt-2 text-sm text-text-brand/70">{resultsSummary}</p>
               </div>
+              <div className="flex items-center gap-2">
+                <ArrowUpDown className="h-4 w-4 text-brand-sprout" />
+                <Select
+                  value={filters.sort}
+                  onValueChange={(value) => handleSortChange(value as SortMode)}
+                >
+                  <SelectTrigger
+                    aria-label="Sort games"
+                    className="h-9 w-52 rounded-full border-brand-sprout/40 bg-white text-sm font-medium text-text-brand"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortModes.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {sortMeta[mode].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <p className="mt-4 max-w-2xl text-sm leading-6 text-text-brand/75">
               Discover activities that spark connection, collaboration, and laughs for every group size.
@@ -464,23 +668,70 @@ export function GameClient({
           {hasActiveFilters && (
             <div className="flex flex-wrap items-center gap-2 rounded-3xl border border-brand-sprout/20 bg-surface-raised/90 p-4 shadow-sm backdrop-blur">
               <span className="text-sm font-medium text-text-brand/80">Active filters:</span>
-              {activeFilters.map(({ key, value }) => {
+              {activeFilters.map(({ key, value, mode }) => {
                 const label = filterMeta[key].label;
+                const isExcluded = mode === "exclude";
                 return (
                   <Badge
                     key={`${key}-${value}`}
                     variant="secondary"
+                    className={cn(
+                      "flex items-center gap-2 rounded-full px-3 py-1 text-sm font-medium",
+                      isExcluded
+                        ? "border border-dashed border-destructive/50 bg-destructive/10 text-destructive"
+                        : "bg-surface-highlight text-text-brand"
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        "font-semibold",
+                        isExcluded ? "text-destructive" : "text-brand-sprout"
+                      )}
+                    >
+                      {isExcluded
+                        ? `${label}: not`
+                        : mode === "all"
+                          ? `${label} (all):`
+                          : `${label}:`}
+                    </span>
+                    <span>{prettifyFilterValue(value)}</span>
+                    <button
+                      type="button"
+                      className={cn(
+                        "rounded-full p-0.5 transition",
+                        isExcluded
+                          ? "text-destructive hover:bg-destructive/20"
+                          : "text-brand-sprout hover:bg-brand-sprout/20"
+                      )}
+                      onClick={() => updateFilterValue(key, value, false)}
+                    >
+                      <X className="h-3 w-3" />
+                      <span className="sr-only">
+                        Remove {isExcluded ? "exclusion of " : ""}
+                        {prettifyFilterValue(value)}
+                      </span>
+                    </button>
+                  </Badge>
+                );
+              })}
+              {activeRanges.map(({ key, range }) => {
+                const { label, unit } = rangeMeta[key];
+                const rangeLabel = formatRangeLabel(range, unit);
+                return (
+                  <Badge
+                    key={key}
+                    variant="secondary"
                     className="flex items-center gap-2 rounded-full bg-surface-highlight px-3 py-1 text-sm font-medium text-text-brand"
                   >
                     <span className="font-semibold text-brand-sprout">{label}:</span>
-                    <span>{prettifyFilterValue(value)}</span>
+                    <span>{rangeLabel}</span>
                     <button
                       type="button"
                       className="rounded-full p-0.5 text-brand-sprout transition hover:bg-brand-sprout/20"
-                      onClick={() => updateFilterValue(key, value, false)}
+                      onClick={() => updateRange(key, null)}
                     >
                       <X className="h-3 w-3" />
-                      <span className="sr-only">Remove {prettifyFilterValue(value)}</span>
+                      <span className="sr-only">Remove {rangeLabel}</span>
                     </button>
                   </Badge>
                 );
@@ -504,6 +755,14 @@ export function GameClient({
             onPageChange={handlePageChange}
           />
         </main>
+
+        <SurprisePreview
+          game={surprisePick}
+          candidateCount={filteredGames.length}
+          onClose={closeSurprise}
+          onReroll={handleSurprise}
+          onCopyLink={copySurpriseLink}
+        />
       </div>
     </div>
   );
@@ -1,26 +1,43 @@
-import { games } from "@/lib/loadGames";
+import { games, recommendations } from "@/lib/loadGames";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Markdown } from "@/components/markdown";
+import { AddToPlanButton } from "@/components/plan/add-to-plan-button";
+import { FavouriteButton } from "@/components/favourites/favourite-button";
+import { PrintButton } from "@/components/print/print-button";
+import { MediaGallery } from "@/components/game/media-gallery";
+import { formatRulesMarkdown, gamePdfHref } from "@/lib/print";
+import { resolveRelatedGames } from "@/lib/related";
 import { prettifyFilterValue } from "@/lib/utils";
 import {
   ArrowLeft,
+  ArrowRight,
   Baby,
+  FileDown,
   Clock,
   Globe2,
   ScrollText,
   Sparkles,
   Users,
   Wrench,
+  Link2,
+  Layers,
   LucideIcon,
+  MapPinned,
+  Ruler,
+  ThumbsUp,
+  Zap,
 } from "lucide-react";
 
 type Props = {
   params: { id: string };
 };
 
+const gamesById = new Map(games.map((game) => [game.id, game]));
+const { related: relatedGameIds } = resolveRelatedGames(games);
+
 export async function generateStaticParams() {
   return games.map((game) => ({
     id: game.id,
@@ -49,8 +66,8 @@ const StatCard = ({
   label: string;
   value: string;
 }) => (
-  <div className="flex items-start gap-3 rounded-2xl border border-brand-sprout/20 bg-surface-raised p-4 shadow-sm transition-all hover:border-brand-sprout/40 hover:shadow-md">
-    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-surface-highlight text-brand-sprout">
+  <div className="flex items-start gap-3 rounded-2xl border border-brand-sprout/20 bg-surface-raised p-4 shadow-sm transition-all hover:border-brand-sprout/40 hover:shadow-md print:rounded-lg print:p-2 print:shadow-none">
+    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-surface-highlight text-brand-sprout print:hidden">
       <Icon className="h-5 w-5" />
     </div>
     <div>
@@ -71,23 +88,42 @@ export default function GameDetailPage({ params }: Props) {
 
   const ageRange = formatRange(game.ageMin, game.ageMax, "years");
   const playerRange = formatRange(game.playersMin, game.playersMax, "players");
+  const durationRange = formatRange(game.durationMin, game.durationMax, "minutes");
   const prepText = game.prepLevel ? prettifyFilterValue(game.prepLevel) : null;
   const traditionText = game.traditionality
     ? prettifyFilterValue(game.traditionality)
     : null;
+  const energyText = game.energyLevel
+    ? prettifyFilterValue(game.energyLevel)
+    : null;
+  const settingText =
+    game.setting.length > 0 ? game.setting.join(" & ") : null;
+  const surfacesText =
+    game.surfaces.length > 0 ? game.surfaces.join(", ") : null;
+  const rulesMarkdown = formatRulesMarkdown(game.generalRules);
+  const relatedGames = (relatedGameIds[game.id] ?? []).flatMap((id) => {
+    const relatedGame = gamesById.get(id);
+    return relatedGame ? [relatedGame] : [];
+  });
+  const suggestions = (recommendations[game.id] ?? []).flatMap(
+    ({ gameId, reasons }) => {
+      const suggested = gamesById.get(gameId);
+      return suggested ? [{ game: suggested, reasons }] : [];
+    }
+  );
 
   return (
-    <div className="min-h-screen bg-surface-sunken pb-20">
+    <div className="min-h-screen bg-surface-sunken pb-20 print:min-h-0 print:bg-white print:pb-0">
       {/* Header / Hero */}
-      <header className="relative overflow-hidden bg-surface-raised pb-12 pt-24 shadow-sm lg:pt-32">
-        <div className="absolute inset-0 bg-[url('/grid-pattern.svg')] opacity-[0.03]" />
+      <header className="relative overflow-hidden bg-surface-raised pb-12 pt-24 shadow-sm lg:pt-32 print:bg-white print:py-0 print:shadow-none">
+        <div className="absolute inset-0 bg-[url('/grid-pattern.svg')] opacity-[0.03] print:hidden" />
         <div
-          className="absolute inset-0 bg-gradient-to-b from-brand-sprout/5 to-transparent"
+          className="absolute inset-0 bg-gradient-to-b from-brand-sprout/5 to-transparent print:hidden"
           aria-hidden="true"
         />
 
-        <div className="relative mx-auto max-w-5xl px-6 lg:px-8">
-          <div className="mb-8">
+        <div className="relative mx-auto max-w-5xl px-6 lg:px-8 print:max-w-none print:px-0">
+          <div className="mb-8 print:hidden">
             <Link href="/Itsallfunandgames">
               <Button
                 variant="ghost"
@@ -117,30 +153,60 @@ export default function GameDetailPage({ params }: Props) {
                   </Badge>
                 ))}
               </div>
-              <h1 className="font-heading text-4xl font-bold text-text-brand sm:text-5xl lg:text-6xl">
+              <h1 className="font-heading text-4xl font-bold text-text-brand sm:text-5xl lg:text-6xl print:text-3xl">
                 {game.name}
               </h1>
               {game.description && (
-                <p className="max-w-2xl text-lg leading-relaxed text-text-brand/80">
+                <p className="max-w-2xl text-lg leading-relaxed text-text-brand/80 print:max-w-none print:text-sm">
                   {game.description}
                 </p>
               )}
             </div>
+            <div className="flex shrink-0 flex-wrap gap-3 print:hidden">
+              <FavouriteButton gameId={game.id} gameName={game.name} />
+              <AddToPlanButton gameId={game.id} gameName={game.name} />
+              <PrintButton />
+              <Button
+                asChild
+                variant="outline"
+                className="gap-2 rounded-full border-brand-sprout/40 bg-white text-sm font-semibold text-text-brand hover:bg-brand-sprout/10"
+              >
+                <a href={gamePdfHref(game.id)} download>
+                  <FileDown className="h-4 w-4 text-brand-sprout" />
+                  PDF
+                </a>
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
-      <main className="relative mx-auto -mt-8 max-w-5xl px-6 lg:px-8">
-        <div className="grid grid-cols-1 gap-8 lg:grid-cols-12">
+      <main className="relative mx-auto -mt-8 max-w-5xl px-6 lg:px-8 print:mt-4 print:max-w-none print:px-0">
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-12 print:block">
           {/* Sidebar / Stats (Left on Desktop) */}
-          <aside className="space-y-6 lg:col-span-4 lg:sticky lg:top-8">
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-1">
+          <aside className="space-y-6 lg:col-span-4 lg:sticky lg:top-8 print:static print:mb-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-1 print:grid-cols-4 print:gap-2">
               {playerRange && (
                 <StatCard icon={Users} label="Players" value={playerRange} />
               )}
               {ageRange && (
                 <StatCard icon={Baby} label="Age Range" value={ageRange} />
               )}
+              {durationRange && (
+                <StatCard icon={Clock} label="Duration" value={durationRange} />
+              )}
+              {energyText && (
+                <StatCard icon={Zap} label="Energy" value={energyText} />
+              )}
+              {settingText && (
+                <StatCard icon={MapPinned} label="Setting" value={settingText} />
+              )}
+              {game.minSpace && (
+                <StatCard icon={Ruler} label="Space needed" value={game.minSpace} />
+              )}
+              {surfacesText && (
+                <StatCard icon={Layers} label="Surface" value={surfacesText} />
+              )}
               {prepText && (
                 <StatCard icon={Wrench} label="Prep Level" value={prepText} />
               )}
@@ -154,7 +220,7 @@ export default function GameDetailPage({ params }: Props) {
             </div>
 
             {(game.skillsDeveloped?.length ?? 0) > 0 && (
-              <div className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm">
+              <div className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm print:hidden">
                 <div className="mb-4 flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-text-brand/60">
                   <Sparkles className="h-4 w-4 text-brand-marigold" />
                   Skills Developed
@@ -174,7 +240,7 @@ export default function GameDetailPage({ params }: Props) {
             )}
 
             {(game.regionalPopularity?.length ?? 0) > 0 && (
-              <div className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm">
+              <div className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm print:hidden">
                 <div className="mb-4 flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-text-brand/60">
                   <Globe2 className="h-4 w-4 text-brand-sprout" />
                   Popular In
@@ -195,48 +261,26 @@ export default function GameDetailPage({ params }: Props) {
           </aside>
 
           {/* Main Content (Right on Desktop) */}
-          <div className="space-y-8 lg:col-span-8">
+          <div className="space-y-8 lg:col-span-8 print:space-y-4">
             {/* Rules Section */}
-            {game.generalRules && game.generalRules.length > 0 && (
-              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8">
-                <h2 className="mb-6 font-heading text-2xl font-bold text-text-brand">
+            {rulesMarkdown && (
+              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8 print:rounded-none print:border-0 print:p-0 print:shadow-none">
+                <h2 className="mb-6 font-heading text-2xl font-bold text-text-brand print:mb-2 print:text-xl">
                   How to Play
                 </h2>
                 <div className="prose prose-stone max-w-none prose-headings:font-heading prose-headings:font-semibold prose-p:text-text-brand/80 prose-li:text-text-brand/80 prose-strong:text-text-brand">
-                  {(() => {
-                    const cleanedRules = game.generalRules
-                      .map((rule) => rule.trim())
-                      .filter((rule) => rule.length > 0);
-
-                    if (cleanedRules.length === 0) return null;
-
-                    const combinedRules = cleanedRules.reduce(
-                      (acc, rule, index) => {
-                        if (index === 0) return rule;
-                        const previous = cleanedRules[index - 1];
-                        const currentIsListItem = /^(\d+\.|[-*+])\s/.test(rule);
-                        const previousIsListItem = previous
-                          ? /^(\d+\.|[-*+])\s/.test(previous)
-                          : false;
-                        const separator =
-                          currentIsListItem && previousIsListItem
-                            ? "\n"
-                            : "\n\n";
-                        return `${acc}${separator}${rule}`;
-                      },
-                      ""
-                    );
-
-                    return <Markdown content={combinedRules} />;
-                  })()}
+                  <Markdown content={rulesMarkdown} />
                 </div>
               </section>
             )}
 
+            {/* Media Gallery */}
+            <MediaGallery media={game.media} gameName={game.name} />
+
             {/* Equipment Section */}
             {game.equipment && (
-              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8">
-                <h2 className="mb-4 font-heading text-xl font-bold text-text-brand">
+              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8 print:break-inside-avoid print:rounded-none print:border-0 print:p-0 print:shadow-none">
+                <h2 className="mb-4 font-heading text-xl font-bold text-text-brand print:mb-1">
                   Equipment Needed
                 </h2>
                 <p className="text-text-brand/80">{game.equipment}</p>
@@ -245,15 +289,15 @@ export default function GameDetailPage({ params }: Props) {
 
             {/* Variations Section */}
             {game.variations && game.variations.length > 0 && (
-              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8">
-                <h2 className="mb-6 font-heading text-xl font-bold text-text-brand">
+              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8 print:rounded-none print:border-0 print:p-0 print:shadow-none">
+                <h2 className="mb-6 font-heading text-xl font-bold text-text-brand print:mb-2">
                   Variations
                 </h2>
-                <ul className="space-y-4">
+                <ul className="space-y-4 print:space-y-1 print:text-sm">
                   {game.variations.map((variation, index) => (
                     <li
                       key={index}
-                      className="flex gap-4 rounded-xl bg-surface-sunken/50 p-4"
+                      className="flex gap-4 rounded-xl bg-surface-sunken/50 p-4 print:break-inside-avoid print:bg-transparent print:p-0"
                     >
                       <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-brand-marigold/20 text-xs font-bold text-brand-ink">
                         {index + 1}
@@ -264,6 +308,70 @@ export default function GameDetailPage({ params }: Props) {
                 </ul>
               </section>
             )}
+
+            {/* Related Games Section */}
+            {relatedGames.length > 0 && (
+              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8 print:hidden">
+                <h2 className="mb-6 flex items-center gap-2 font-heading text-xl font-bold text-text-brand">
+                  <Link2 className="h-5 w-5 text-brand-sprout" />
+                  Related Games
+                </h2>
+                <ul className="grid gap-3 sm:grid-cols-2">
+                  {relatedGames.map((relatedGame) => (
+                    <li key={relatedGame.id}>
+                      <Link
+                        href={`/game/${relatedGame.id}`}
+                        className="group flex items-center justify-between gap-3 rounded-xl bg-surface-sunken/50 p-4 transition hover:bg-brand-sprout/10"
+                      >
+                        <span className="space-y-0.5">
+                          <span className="block font-medium text-text-brand group-hover:text-brand-sprout">
+                            {relatedGame.name}
+                          </span>
+                          {relatedGame.category && (
+                            <span className="block text-xs text-text-brand/60">
+                              {prettifyFilterValue(relatedGame.category)}
+                            </span>
+                          )}
+                        </span>
+                        <ArrowRight className="h-4 w-4 shrink-0 text-brand-sprout transition-transform group-hover:translate-x-1" />
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {/* Recommendations Section */}
+            {suggestions.length > 0 && (
+              <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8 print:hidden">
+                <h2 className="mb-6 flex items-center gap-2 font-heading text-xl font-bold text-text-brand">
+                  <ThumbsUp className="h-5 w-5 text-brand-marigold" />
+                  You Might Also Like
+                </h2>
+                <ul className="grid gap-3 sm:grid-cols-2">
+                  {suggestions.map(({ game: suggested, reasons }) => (
+                    <li key={suggested.id}>
+                      <Link
+                        href={`/game/${suggested.id}`}
+                        className="group flex h-full items-start justify-between gap-3 rounded-xl bg-surface-sunken/50 p-4 transition hover:bg-brand-sprout/10"
+                      >
+                        <span className="space-y-1">
+                          <span className="block font-medium text-text-brand group-hover:text-brand-sprout">
+                            {suggested.name}
+                          </span>
+                          {reasons.length > 0 && (
+                            <span className="block text-xs text-text-brand/60">
+                              {reasons.slice(0, 2).join(" · ")}
+                            </span>
+                          )}
+                        </span>
+                        <ArrowRight className="mt-1 h-4 w-4 shrink-0 text-brand-sprout transition-transform group-hover:translate-x-1" />
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
           </div>
         </div>
       </main>
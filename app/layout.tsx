@@ -30,11 +30,11 @@ export default function RootLayout({ children }: { children: React.ReactNode })
           storageKey="itsallfunandgames-theme"
         >
           <Header />
-          <main className="container mx-auto max-w-6xl px-4 py-10">
+          <main className="container mx-auto max-w-6xl px-4 py-10 print:max-w-none print:p-0">
             <div
-              className="relative z-0 overflow-hidden rounded-[2.75rem] border border-white/60 bg-white/80 p-6 shadow-[0_20px_60px_rgba(15,23,42,0.12)] ring-1 ring-black/5 backdrop-blur supports-[backdrop-filter]:bg-white/65 dark:border-white/10 dark:bg-slate-950/70 dark:ring-white/5 md:p-10"
+              className="relative z-0 overflow-hidden rounded-[2.75rem] border border-white/60 bg-white/80 p-6 shadow-[0_20px_60px_rgba(15,23,42,0.12)] ring-1 ring-black/5 backdrop-blur supports-[backdrop-filter]:bg-white/65 dark:border-white/10 dark:bg-slate-950/70 dark:ring-white/5 md:p-10 print:overflow-visible print:rounded-none print:border-0 print:bg-white print:p-0 print:shadow-none print:ring-0"
             >
-              <div className="pointer-events-none absolute inset-0 -z-10 bg-gradient-to-br from-emerald-200/40 via-transparent to-rose-200/50 dark:from-emerald-400/10 dark:via-transparent dark:to-rose-500/20" />
+              <div className="pointer-events-none absolute inset-0 -z-10 bg-gradient-to-br from-emerald-200/40 via-transparent to-rose-200/50 dark:from-emerald-400/10 dark:via-transparent dark:to-rose-500/20 print:hidden" />
               {children}
             </div>
           </main>
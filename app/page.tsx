@@ -4,6 +4,9 @@ import { GameClient } from './game-client';
 import { Game } from '@/lib/types';
 import { Suspense } from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { vocabularies, type VocabularyField } from '@/lib/vocabulary';
+import { rangeKeys } from '@/lib/constants';
+import { hasRangeData } from '@/lib/ranges';
 
 // Helper to get unique facet values
 const getUniqueValues = (games: Game[], key: keyof Game) => {
@@ -19,19 +22,27 @@ const getUniqueValues = (games: Game[], key: keyof Game) => {
   return Array.from(values).sort();
 };
 
-export default function HomePage() {
-  const sortedGames = [...games].sort((a, b) =>
-    a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
-  );
+// Controlled-vocabulary facets keep the vocabulary's order rather than A–Z
+const getVocabularyValues = (games: Game[], key: VocabularyField) => {
+  const present = new Set(getUniqueValues(games, key));
+  return vocabularies[key].values.filter(value => present.has(value));
+};
 
+export default function HomePage() {
   const facets = {
-    category: getUniqueValues(sortedGames, 'category'),
-    tags: getUniqueValues(sortedGames, 'tags'),
-    traditionality: getUniqueValues(sortedGames, 'traditionality'),
-    prepLevel: getUniqueValues(sortedGames, 'prepLevel'),
-    skillsDeveloped: getUniqueValues(sortedGames, 'skillsDeveloped'),
-    regionalPopularity: getUniqueValues(sortedGames, 'regionalPopularity'),
+    category: getVocabularyValues(games, 'category'),
+    tags: getUniqueValues(games, 'tags'),
+    traditionality: getVocabularyValues(games, 'traditionality'),
+    prepLevel: getVocabularyValues(games, 'prepLevel'),
+    skillsDeveloped: getUniqueValues(games, 'skillsDeveloped'),
+    regionalPopularity: getUniqueValues(games, 'regionalPopularity'),
+    energyLevel: getVocabularyValues(games, 'energyLevel'),
+    setting: getVocabularyValues(games, 'setting'),
+    minSpace: getVocabularyValues(games, 'minSpace'),
+    surfaces: getVocabularyValues(games, 'surfaces'),
   };
+  // Like empty facets, range groups no game has data for are left out
+  const ranges = rangeKeys.filter(key => hasRangeData(games, key));
 
   return (
     <section className="relative z-10 space-y-12 sm:space-y-16">
@@ -56,7 +67,8 @@ export default function HomePage() {
           </div>
         }
       >
-        <GameClient allGames={sortedGames} facets={facets} />
+        {/* Games stay in file order so the client can sort by recently added */}
+        <GameClient allGames={games} facets={facets} ranges={ranges} />
       </Suspense>
     </section>
   );
@@ -0,0 +1,13 @@
+// app/plan/page.tsx
+import type { Metadata } from 'next';
+import { games } from '@/lib/loadGames';
+import { PlanClient } from './plan-client';
+
+export const metadata: Metadata = {
+  title: 'Session planner · ItsAllFunAndGames',
+  description: 'Line up games into a timed play session.',
+};
+
+export default function PlanPage() {
+  return <PlanClient allGames={games} />;
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Baby,
+  Clock,
+  Printer,
+  SquareStack,
+  Trash2,
+  Users,
+  Wrench,
+  X,
+} from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSessionPlan } from "@/hooks/use-session-plan";
+import { RangeIntersection, formatDuration, summarisePlan } from "@/lib/plan";
+import { buildPrintHref } from "@/lib/print";
+import { formatRangeLabel } from "@/lib/ranges";
+import { Game } from "@/lib/types";
+
+const describeFit = (range: RangeIntersection, unit: string) =>
+  range.min === null && range.max === null
+    ? "No limits given"
+    : formatRangeLabel({ min: range.min, max: range.max }, unit);
+
+export function PlanClient({ allGames }: { allGames: Game[] }) {
+  const {
+    plan,
+    removeSlot,
+    moveSlot,
+    setSlotMinutes,
+    setTitle,
+    clearPlan,
+  } = useSessionPlan();
+
+  const gamesById = useMemo(
+    () => new Map(allGames.map((game) => [game.id, game])),
+    [allGames]
+  );
+  const summary = useMemo(() => summarisePlan(plan, allGames), [plan, allGames]);
+
+  const conflicts = [
+    summary.age.conflict && {
+      label: "Ages don't overlap",
+      detail: `${summary.age.conflict.highest} starts at ${summary.age.min} years, but ${summary.age.conflict.lowest} is for up to ${summary.age.max}.`,
+    },
+    summary.players.conflict && {
+      label: "Group sizes don't overlap",
+      detail: `${summary.players.conflict.highest} needs at least ${summary.players.min} players, but ${summary.players.conflict.lowest} takes at most ${summary.players.max}.`,
+    },
+  ].filter((conflict): conflict is { label: string; detail: string } => Boolean(conflict));
+
+  let elapsed = 0;
+
+  return (
+    <section className="space-y-8">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div className="min-w-0 flex-1 space-y-2">
+          <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground print:hidden">
+            Session planner
+          </p>
+          <Input
+            value={plan.title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="Name this session (e.g. Cub camp, Saturday)"
+            aria-label="Session name"
+            className="h-12 max-w-xl rounded-2xl border-brand-sprout/30 bg-white text-xl font-semibold print:hidden"
+          />
+          <h1 className="hidden print:block">{plan.title || "Play session"}</h1>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <Button
+            variant="outline"
+            className="gap-2 rounded-full border-brand-sprout/40 bg-white"
+            onClick={() => window.print()}
+            disabled={plan.slots.length === 0}
+          >
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+          {plan.slots.length > 0 && (
+            <Button
+              asChild
+              variant="outline"
+              className="gap-2 rounded-full border-brand-sprout/40 bg-white"
+            >
+              <Link href={buildPrintHref(plan.slots.map((slot) => slot.gameId))}>
+                <SquareStack className="h-4 w-4" />
+                Print cards
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            className="gap-2 rounded-full text-destructive hover:bg-destructive/10"
+            onClick={clearPlan}
+            disabled={plan.slots.length === 0}
+          >
+            <Trash2 className="h-4 w-4" />
+            Clear plan
+          </Button>
+        </div>
+      </header>
+
+      {plan.slots.length === 0 ? (
+        <div className="rounded-3xl border border-dashed border-brand-sprout/40 bg-surface-raised p-12 text-center">
+          <p className="mb-4 text-text-brand/70">
+            Your plan is empty. Add games from the catalogue or a game&apos;s page to start
+            building a session.
+          </p>
+          <Button asChild className="rounded-full bg-brand-marigold text-brand-ink hover:bg-brand-marigold-dark">
+            <Link href="/">Browse games</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="grid gap-8 lg:grid-cols-12 print:block">
+          <ol className="space-y-3 lg:col-span-8">
+            {plan.slots.map((slot, index) => {
+              const game = gamesById.get(slot.gameId);
+              const start = elapsed;
+              elapsed += slot.minutes;
+              return (
+                <li
+                  key={slot.id}
+                  className="flex flex-wrap items-center gap-4 rounded-2xl border border-brand-sprout/20 bg-surface-raised p-4 shadow-sm print:break-inside-avoid print:shadow-none"
+                >
+                  <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-brand-marigold/20 text-sm font-bold text-brand-ink">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-medium text-text-brand/60">
+                      {formatDuration(start)} – {formatDuration(elapsed)}
+                    </p>
+                    {game ? (
+                      <Link
+                        href={`/game/${game.id}`}
+                        className="font-heading text-lg font-semibold text-text-brand hover:text-brand-sprout"
+                      >
+                        {game.name}
+                      </Link>
+                    ) : (
+                      <p className="font-heading text-lg font-semibold text-text-brand/60">
+                        Game no longer in the catalogue ({slot.gameId})
+                      </p>
+                    )}
+                    {game?.equipment && (
+                      <p className="text-xs text-text-brand/70">Equipment: {game.equipment}</p>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-text-brand/80">
+                    <Clock className="h-4 w-4 text-brand-sprout" />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={5}
+                      value={slot.minutes}
+                      onChange={(event) =>
+                        setSlotMinutes(slot.id, Number(event.target.value))
+                      }
+                      aria-label={`Minutes for ${game?.name ?? "this slot"}`}
+                      className="h-9 w-20 rounded-full bg-white text-center print:hidden"
+                    />
+                    <span className="hidden print:inline">{slot.minutes}</span>
+                    min
+                  </label>
+                  <div className="flex gap-1 print:hidden">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveSlot(slot.id, -1)}
+                      disabled={index === 0}
+                      aria-label="Move earlier"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveSlot(slot.id, 1)}
+                      disabled={index === plan.slots.length - 1}
+                      aria-label="Move later"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeSlot(slot.id)}
+                      aria-label="Remove from plan"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          <aside className="space-y-4 lg:col-span-4 print:mt-8">
+            <div className="space-y-3 rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm print:shadow-none">
+              <p className="flex items-center gap-2 text-sm text-text-brand/80">
+                <Clock className="h-4 w-4 text-brand-sprout" />
+                <span className="font-semibold">Total time:</span>
+                {formatDuration(summary.totalMinutes)}
+              </p>
+              <p className="flex items-center gap-2 text-sm text-text-brand/80">
+                <Baby className="h-4 w-4 text-brand-sprout" />
+                <span className="font-semibold">Suits ages:</span>
+                {summary.age.conflict ? "No common range" : describeFit(summary.age, "years")}
+              </p>
+              <p className="flex items-center gap-2 text-sm text-text-brand/80">
+                <Users className="h-4 w-4 text-brand-sprout" />
+                <span className="font-semibold">Group size:</span>
+                {summary.players.conflict
+                  ? "No common range"
+                  : describeFit(summary.players, "players")}
+              </p>
+            </div>
+
+            {conflicts.map((conflict) => (
+              <Alert key={conflict.label} variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{conflict.label}</AlertTitle>
+                <AlertDescription>{conflict.detail}</AlertDescription>
+              </Alert>
+            ))}
+
+            <div className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm print:shadow-none">
+              <h2 className="mb-3 flex items-center gap-2 font-heading text-lg font-semibold text-text-brand">
+                <Wrench className="h-4 w-4 text-brand-sprout" />
+                Equipment
+              </h2>
+              {summary.equipment.length === 0 ? (
+                <p className="text-sm text-text-brand/70">Nothing to bring.</p>
+              ) : (
+                <ul className="space-y-2 text-sm text-text-brand/80">
+                  {summary.equipment.map(({ item, games }) => (
+                    <li key={item} className="flex gap-2">
+                      <span aria-hidden="true">☐</span>
+                      <span>
+                        {item}
+                        <span className="block text-xs text-text-brand/60">
+                          {games.join(", ")}
+                        </span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </aside>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,19 @@
+// app/print/page.tsx
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import { games } from '@/lib/loadGames';
+import { Skeleton } from '@/components/ui/skeleton';
+import { PrintClient } from './print-client';
+
+export const metadata: Metadata = {
+  title: 'Print pocket cards · ItsAllFunAndGames',
+  description: 'Print selected games as pocket-sized rule cards.',
+};
+
+export default function PrintPage() {
+  return (
+    <Suspense fallback={<Skeleton className="h-64 rounded-3xl" />}>
+      <PrintClient allGames={games} />
+    </Suspense>
+  );
+}
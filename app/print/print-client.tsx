@@ -0,0 +1,122 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PocketCard } from "@/components/print/pocket-card";
+import { PrintButton } from "@/components/print/print-button";
+import {
+  PrintLayout,
+  buildPrintHref,
+  chunk,
+  parsePrintGameIds,
+  parsePrintLayout,
+  printLayouts,
+} from "@/lib/print";
+import { Game } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const layoutMeta: Record<PrintLayout, { label: string; sheet: string }> = {
+  2: { label: "2 per page (A5)", sheet: "grid-rows-2" },
+  4: { label: "4 per page (A6)", sheet: "grid-cols-2 grid-rows-2" },
+};
+
+export function PrintClient({ allGames }: { allGames: Game[] }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const layout = parsePrintLayout(searchParams.get("per"));
+  const gameIds = useMemo(
+    () => parsePrintGameIds(searchParams.get("games")),
+    [searchParams]
+  );
+
+  const selectedGames = useMemo(() => {
+    const byId = new Map(allGames.map((game) => [game.id, game]));
+    return gameIds.flatMap((id) => {
+      const game = byId.get(id);
+      return game ? [game] : [];
+    });
+  }, [allGames, gameIds]);
+
+  const sheets = chunk(selectedGames, layout);
+
+  return (
+    <section className="space-y-8 print:space-y-0">
+      <header className="flex flex-wrap items-end justify-between gap-4 print:hidden">
+        <div className="space-y-2">
+          <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
+            Print
+          </p>
+          <h1 className="font-heading text-3xl">Pocket cards</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            {selectedGames.length} game{selectedGames.length === 1 ? "" : "s"} on{" "}
+            {sheets.length} A4 sheet{sheets.length === 1 ? "" : "s"}. Cut along the
+            dashed lines.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <div
+            role="radiogroup"
+            aria-label="Cards per page"
+            className="flex rounded-full border border-brand-sprout/40 bg-white p-1"
+          >
+            {printLayouts.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={layout === option}
+                onClick={() =>
+                  router.replace(buildPrintHref(gameIds, option))
+                }
+                className={cn(
+                  "rounded-full px-3 py-1 text-sm font-medium transition",
+                  layout === option
+                    ? "bg-surface-highlight text-text-brand shadow-inner"
+                    : "text-text-brand/70 hover:bg-brand-sprout/10"
+                )}
+              >
+                {layoutMeta[option].label}
+              </button>
+            ))}
+          </div>
+          <PrintButton disabled={selectedGames.length === 0} />
+        </div>
+      </header>
+
+      {selectedGames.length === 0 ? (
+        <div className="rounded-3xl border border-dashed border-brand-sprout/40 bg-surface-raised p-12 text-center print:hidden">
+          <p className="mb-4 text-text-brand/70">
+            No games selected. Print a favourites list or a session plan to get a card
+            for each of its games.
+          </p>
+          <Button asChild variant="outline" className="gap-2 rounded-full">
+            <Link href="/favourites">
+              <ArrowLeft className="h-4 w-4" />
+              Go to favourites
+            </Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-8 overflow-x-auto print:space-y-0 print:overflow-visible">
+          {sheets.map((sheet, index) => (
+            <div
+              key={index}
+              className={cn(
+                "pocket-sheet mx-auto grid h-[297mm] w-[210mm] gap-[6mm] bg-white p-[8mm] shadow-lg print:shadow-none",
+                index < sheets.length - 1 && "break-after-page",
+                layoutMeta[layout].sheet
+              )}
+            >
+              {sheet.map((game) => (
+                <PocketCard key={game.id} game={game} compact={layout === 4} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,67 @@
+import { cn } from "@/lib/utils";
+
+interface SparklineProps {
+    // Percentages oldest first; null marks a snapshot without the metric
+    points: (number | null)[];
+    label: string;
+    className?: string;
+}
+
+const WIDTH = 120;
+const HEIGHT = 28;
+const PADDING = 2;
+
+// A small 0–100% line chart; gaps in the data break the line
+export function Sparkline({ points, label, className }: SparklineProps) {
+    const step = points.length > 1 ? (WIDTH - PADDING * 2) / (points.length - 1) : 0;
+    const toY = (value: number) => PADDING + (1 - value / 100) * (HEIGHT - PADDING * 2);
+
+    const segments: string[][] = [];
+    points.forEach((value, index) => {
+        if (value === null) {
+            segments.push([]);
+            return;
+        }
+        if (segments.length === 0) segments.push([]);
+        segments[segments.length - 1].push(`${PADDING + index * step},${toY(value)}`);
+    });
+
+    const lastIndex = points.findLastIndex((value) => value !== null);
+    const last = lastIndex === -1 ? null : points[lastIndex];
+
+    return (
+        <svg
+            role="img"
+            aria-label={label}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            width={WIDTH}
+            height={HEIGHT}
+            className={cn("text-primary", className)}
+        >
+            <line
+                x1={PADDING}
+                x2={WIDTH - PADDING}
+                y1={toY(100)}
+                y2={toY(100)}
+                className="stroke-border"
+                strokeDasharray="2 3"
+            />
+            {segments
+                .filter((segment) => segment.length > 1)
+                .map((segment, index) => (
+                    <polyline
+                        key={index}
+                        points={segment.join(" ")}
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth={1.5}
+                        strokeLinejoin="round"
+                        strokeLinecap="round"
+                    />
+                ))}
+            {last != null && (
+                <circle cx={PADDING + lastIndex * step} cy={toY(last)} r={2} fill="currentColor" />
+            )}
+        </svg>
+    );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Plus, Star } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useShortlists } from "@/hooks/use-shortlists";
+import { cn } from "@/lib/utils";
+
+interface FavouriteButtonProps {
+    gameId: string;
+    gameName: string;
+    variant?: "icon" | "full";
+    className?: string;
+}
+
+export function FavouriteButton({
+    gameId,
+    gameName,
+    variant = "full",
+    className,
+}: FavouriteButtonProps) {
+    const { shortlists, toggleGame, createList, isSaved } = useShortlists();
+    const [newListName, setNewListName] = useState("");
+    const saved = isSaved(gameId);
+
+    const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const name = newListName.trim();
+        if (!name) return;
+        createList(name, [gameId]);
+        setNewListName("");
+        toast.success(`Saved “${gameName}” to ${name}`);
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                {variant === "icon" ? (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Save ${gameName} to a shortlist`}
+                        title="Save to shortlist"
+                        className={cn(
+                            "h-9 w-9 rounded-full bg-surface-raised text-brand-marigold shadow-sm hover:bg-brand-marigold/15",
+                            className
+                        )}
+                    >
+                        <Star className={cn("h-4 w-4", saved && "fill-current")} />
+                    </Button>
+                ) : (
+                    <Button
+                        type="button"
+                        variant="outline"
+                        className={cn(
+                            "gap-2 rounded-full border-brand-sprout/40 bg-white text-sm font-semibold text-text-brand hover:bg-brand-sprout/10",
+                            className
+                        )}
+                    >
+                        <Star
+                            className={cn("h-4 w-4 text-brand-marigold", saved && "fill-current")}
+                        />
+                        {saved ? "Saved" : "Save"}
+                    </Button>
+                )}
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-60">
+                <DropdownMenuLabel>Save to shortlist</DropdownMenuLabel>
+                {shortlists.map((list) => (
+                    <DropdownMenuCheckboxItem
+                        key={list.id}
+                        checked={list.gameIds.includes(gameId)}
+                        onCheckedChange={() => toggleGame(list.id, gameId)}
+                        onSelect={(event) => event.preventDefault()}
+                    >
+                        <span className="flex-1 truncate">{list.name}</span>
+                        <span className="ml-2 text-xs text-muted-foreground">
+                            {list.gameIds.length}
+                        </span>
+                    </DropdownMenuCheckboxItem>
+                ))}
+                <DropdownMenuSeparator />
+                <form onSubmit={handleCreate} className="flex items-center gap-1 p-1">
+                    <Input
+                        value={newListName}
+                        onChange={(event) => setNewListName(event.target.value)}
+                        // Keep the menu's typeahead from swallowing keystrokes
+                        onKeyDown={(event) => event.stopPropagation()}
+                        placeholder="New list, e.g. Rainy day"
+                        aria-label="New shortlist name"
+                        className="h-8 text-sm"
+                    />
+                    <Button
+                        type="submit"
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        aria-label="Create shortlist"
+                    >
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                </form>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
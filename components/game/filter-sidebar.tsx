@@ -8,13 +8,33 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { FacetKey, facetKeys, filterMeta } from "@/lib/constants";
+import {
+    FacetKey,
+    FacetMode,
+    FilterGroupKey,
+    RangeKey,
+    facetKeys,
+    facetModeMeta,
+    filterMeta,
+    rangeKeys,
+    rangeMeta,
+} from "@/lib/constants";
+import { FacetCounts } from "@/lib/faceting";
+import { NumericRange } from "@/lib/ranges";
 import { prettifyFilterValue, cn } from "@/lib/utils";
+import { RangeFilter } from "./range-filter";
 import { Filter, PanelLeftClose, PanelLeftOpen, Search as SearchIcon, X } from "lucide-react";
 
 interface FilterSidebarProps {
-    filters: Record<FacetKey, string[]> & { page: number; query: string };
+    filters: Record<FacetKey, string[]> &
+        Record<RangeKey, NumericRange | null> & {
+            page: number;
+            query: string;
+            modes: Record<FacetKey, FacetMode>;
+        };
     facets: Record<FacetKey, string[]>;
+    // Range groups to offer, in display order
+    ranges: RangeKey[];
     filterSearches: Record<FacetKey, string>;
     setFilterSearches: React.Dispatch<React.SetStateAction<Record<FacetKey, string>>>;
     isFilterRailCollapsed: boolean;
@@ -23,14 +43,19 @@ interface FilterSidebarProps {
     closeFilterSheet: () => void;
     resetFilters: () => void;
     updateFilterValue: (key: FacetKey, value: string, include: boolean) => void;
+    updateFacetMode: (key: FacetKey, mode: FacetMode) => void;
+    updateRange: (key: RangeKey, range: NumericRange | null) => void;
+    facetCounts: FacetCounts;
+    rangeCounts: Record<RangeKey, number[]>;
     clearFilterGroup: (key: FacetKey) => void;
-    openFilterSheet: (key?: FacetKey) => void;
-    initialExpandedFilters?: FacetKey[];
+    openFilterSheet: (key?: FilterGroupKey) => void;
+    initialExpandedFilters?: FilterGroupKey[];
 }
 
 export function FilterSidebar({
     filters,
     facets,
+    ranges,
     filterSearches,
     setFilterSearches,
     isFilterRailCollapsed,
@@ -39,11 +64,17 @@ export function FilterSidebar({
     closeFilterSheet,
     resetFilters,
     updateFilterValue,
+    updateFacetMode,
+    updateRange,
+    facetCounts,
+    rangeCounts,
     clearFilterGroup,
     openFilterSheet,
     initialExpandedFilters = [],
 }: FilterSidebarProps) {
-    const hasActiveFilters = facetKeys.some((key) => filters[key].length > 0);
+    const hasActiveFilters =
+        facetKeys.some((key) => filters[key].length > 0) ||
+        rangeKeys.some((key) => filters[key] !== null);
 
     const filterGroups = facetKeys
         .map((key) => {
@@ -110,8 +141,10 @@ export function FilterSidebar({
                                 optionIcons,
                                 options,
                                 showSearch,
+                                modes,
                             } = group;
                             const selectedCount = filters[key].length;
+                            const activeMode = filters.modes[key];
                             const searchTerm = filterSearches[key].toLowerCase().trim();
                             const visibleOptions =
                                 searchTerm.length > 0
@@ -140,6 +173,34 @@ export function FilterSidebar({
                                     </AccordionTrigger>
                                     <AccordionContent className="px-4">
                                         <p className="mb-3 text-xs text-text-brand/70">{description}</p>
+                                        {modes.length > 1 && (
+                                            <div
+                                                role="radiogroup"
+                                                aria-label={`${label} matching`}
+                                                className="mb-3 flex gap-1 rounded-full border border-brand-sprout/20 bg-surface-sunken p-1"
+                                            >
+                                                {modes.map((mode) => (
+                                                    <button
+                                                        key={mode}
+                                                        type="button"
+                                                        role="radio"
+                                                        aria-checked={activeMode === mode}
+                                                        title={facetModeMeta[mode].description}
+                                                        onClick={() => updateFacetMode(key, mode)}
+                                                        className={cn(
+                                                            "flex-1 rounded-full px-2 py-1 text-xs font-semibold transition",
+                                                            activeMode === mode
+                                                                ? mode === "exclude"
+                                                                    ? "bg-destructive/15 text-destructive"
+                                                                    : "bg-surface-highlight text-brand-sprout shadow-inner"
+                                                                : "text-text-brand/70 hover:bg-brand-sprout/10"
+                                                        )}
+                                                    >
+                                                        {facetModeMeta[mode].label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
                                         {showSearch && (
                                             <div className="relative mb-3">
                                                 <SearchIcon className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-brand-sprout/70" />
@@ -162,17 +223,25 @@ export function FilterSidebar({
                                                     visibleOptions.map((option) => {
                                                         const isChecked = filters[key].includes(option);
                                                         const OptionIcon = optionIcons?.[option];
+                                                        const count = facetCounts[key][option] ?? 0;
+                                                        // Options that would empty the results stay visible but inert
+                                                        const isUnavailable = count === 0 && !isChecked;
                                                         return (
                                                             <label
                                                                 key={option}
-                                                                className={`flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2 text-sm transition ${isChecked
+                                                                className={cn(
+                                                                    "flex items-center gap-3 rounded-xl px-3 py-2 text-sm transition",
+                                                                    isChecked
                                                                         ? "bg-surface-highlight text-text-brand shadow-inner"
-                                                                        : "hover:bg-brand-sprout/10"
-                                                                    }`}
+                                                                        : isUnavailable
+                                                                            ? "cursor-not-allowed opacity-50"
+                                                                            : "cursor-pointer hover:bg-brand-sprout/10"
+                                                                )}
                                                             >
                                                                 <Checkbox
                                                                     className="h-4 w-4 border-brand-sprout/50 data-[state=checked]:border-brand-sprout data-[state=checked]:bg-brand-sprout data-[state=checked]:text-white"
                                                                     checked={isChecked}
+                                                                    disabled={isUnavailable}
                                                                     onCheckedChange={(checked) =>
                                                                         updateFilterValue(key, option, checked === true)
                                                                     }
@@ -183,6 +252,9 @@ export function FilterSidebar({
                                                                 <span className="flex-1 text-sm">
                                                                     {prettifyFilterValue(option)}
                                                                 </span>
+                                                                <span className="text-xs text-text-brand/60">
+                                                                    {count}
+                                                                </span>
                                                             </label>
                                                         );
                                                     })
@@ -193,7 +265,7 @@ export function FilterSidebar({
                                                 )}
                                             </div>
                                         </div>
-                                        {selectedCount > 0 && (
+                                        {(selectedCount > 0 || activeMode !== "any") && (
                                             <Button
                                                 variant="ghost"
                                                 size="sm"
@@ -207,6 +279,49 @@ export function FilterSidebar({
                                 </AccordionItem>
                             );
                         })}
+                        {ranges.map((key) => {
+                            const { label, description, icon: Icon } = rangeMeta[key];
+                            const isActive = filters[key] !== null;
+                            return (
+                                <AccordionItem
+                                    key={key}
+                                    value={key}
+                                    className="overflow-hidden rounded-2xl border border-brand-sprout/20 bg-surface-raised shadow-sm"
+                                    id={`filter-group-${key}`}
+                                >
+                                    <AccordionTrigger className="px-4 text-left text-base font-semibold text-text-brand hover:text-brand-sprout">
+                                        <span className="flex w-full items-center gap-2">
+                                            <Icon className="h-4 w-4 text-brand-sprout" />
+                                            <span>{label}</span>
+                                            {isActive && (
+                                                <Badge className="ml-auto rounded-full bg-surface-highlight px-2 py-1 text-[11px] font-semibold text-brand-sprout">
+                                                    1
+                                                </Badge>
+                                            )}
+                                        </span>
+                                    </AccordionTrigger>
+                                    <AccordionContent className="px-4">
+                                        <p className="mb-3 text-xs text-text-brand/70">{description}</p>
+                                        <RangeFilter
+                                            rangeKey={key}
+                                            value={filters[key]}
+                                            presetCounts={rangeCounts[key]}
+                                            onChange={(range) => updateRange(key, range)}
+                                        />
+                                        {isActive && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="mt-3 h-8 px-3 text-xs font-semibold text-brand-sprout hover:bg-surface-highlight"
+                                                onClick={() => updateRange(key, null)}
+                                            >
+                                                Clear {label}
+                                            </Button>
+                                        )}
+                                    </AccordionContent>
+                                </AccordionItem>
+                            );
+                        })}
                     </Accordion>
                 </div>
                 {isSheet && (
@@ -301,6 +416,26 @@ export function FilterSidebar({
                                         </button>
                                     );
                                 })}
+                                {ranges.map((key) => {
+                                    const { label, icon: Icon } = rangeMeta[key];
+                                    const isActive = filters[key] !== null;
+                                    return (
+                                        <button
+                                            key={key}
+                                            type="button"
+                                            onClick={() => openFilterSheet(key)}
+                                            className={cn(
+                                                "relative flex h-11 w-11 items-center justify-center rounded-2xl text-text-brand transition",
+                                                isActive
+                                                    ? "bg-brand-sprout/20 text-brand-sprout"
+                                                    : "bg-surface-sunken hover:bg-surface-highlight"
+                                            )}
+                                            aria-label={`Edit ${label} filter`}
+                                        >
+                                            <Icon className="h-5 w-5" />
+                                        </button>
+                                    );
+                                })}
                             </div>
                         </div>
                     ) : (
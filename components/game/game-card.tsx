@@ -1,16 +1,20 @@
+import Image from "next/image";
 import Link from "next/link";
 import { Game } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { prettifyFilterValue } from "@/lib/utils";
+import { mediaSrc, pickThumbnail } from "@/lib/media";
+import { settingIcons } from "@/lib/constants";
 import {
     ArrowRight,
     Baby,
-    Globe2,
+    Clock,
+    Ruler,
     ScrollText,
-    Sparkles,
     Users,
     Wrench,
+    Zap,
     LucideIcon,
 } from "lucide-react";
 import {
@@ -19,6 +23,8 @@ import {
     TooltipProvider,
     TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { AddToPlanButton } from "@/components/plan/add-to-plan-button";
+import { FavouriteButton } from "@/components/favourites/favourite-button";
 
 interface GameCardProps {
     game: Game;
@@ -77,25 +83,57 @@ export function GameCard({ game }: GameCardProps) {
         return null;
     };
 
+    const formatDuration = (game: Game) => {
+        const { durationMin, durationMax } = game;
+        if (typeof durationMin === "number" && typeof durationMax === "number") {
+            return durationMin === durationMax
+                ? `${durationMin} min`
+                : `${durationMin}\u2013${durationMax} min`;
+        }
+        if (typeof durationMin === "number") {
+            return `${durationMin}+ min`;
+        }
+        if (typeof durationMax === "number") {
+            return `Up to ${durationMax} min`;
+        }
+        return null;
+    };
+
     const playersText = formatPlayers(game);
     const ageText = formatAges(game);
+    const durationText = formatDuration(game);
+    // e.g. "Indoor & Outdoor · Room"
+    const settingText =
+        [game.setting.join(" & "), game.minSpace].filter(Boolean).join(" \u00b7 ") || null;
+    const SettingIcon =
+        game.setting.length === 1 ? settingIcons[game.setting[0]] ?? Ruler : Ruler;
     const prepText = game.prepLevel ? prettifyFilterValue(game.prepLevel) : null;
     const description = game.description?.trim();
     const topSkills = (game.skillsDeveloped || []).slice(0, 3);
+    const thumbnail = pickThumbnail(game);
 
     return (
-        <Card
-            asChild
-            className="group relative flex h-full flex-col overflow-hidden rounded-[32px] border-brand-sprout/20 bg-surface-raised p-0 text-left shadow-sm transition-all duration-300 hover:-translate-y-1 hover:shadow-xl hover:border-brand-sprout/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand-marigold focus-visible:ring-offset-2"
-        >
+        <Card className="group relative flex h-full flex-col overflow-hidden rounded-[32px] border-brand-sprout/20 bg-surface-raised p-0 text-left shadow-sm transition-all duration-300 hover:-translate-y-1 hover:shadow-xl hover:border-brand-sprout/40 focus-within:ring-2 focus-within:ring-brand-marigold focus-within:ring-offset-2">
             <Link
                 href={`/game/${game.id}`}
-                className="flex h-full flex-col text-left text-inherit no-underline"
+                className="flex h-full flex-col text-left text-inherit no-underline focus-visible:outline-none"
             >
+                {thumbnail && (
+                    <div className="relative aspect-[16/9] overflow-hidden bg-surface-sunken">
+                        <Image
+                            src={mediaSrc(thumbnail.url)}
+                            alt={thumbnail.alt}
+                            fill
+                            unoptimized
+                            sizes="(min-width: 1280px) 22rem, (min-width: 768px) 45vw, 100vw"
+                            className="object-cover transition-transform duration-300 group-hover:scale-105"
+                        />
+                    </div>
+                )}
                 <div className="flex flex-1 flex-col p-5">
                     <header className="mb-4 flex flex-col gap-3">
                         <div className="flex items-start justify-between gap-3">
-                            <div className="space-y-1.5">
+                            <div className="space-y-1.5 pr-20">
                                 {game.category && (
                                     <span className="inline-flex items-center rounded-full bg-brand-sprout/10 px-2.5 py-0.5 text-[11px] font-bold uppercase tracking-wider text-brand-sprout">
                                         {prettifyFilterValue(game.category)}
@@ -128,6 +166,27 @@ export function GameCard({ game }: GameCardProps) {
                                     tooltip="Recommended age"
                                 />
                             )}
+                            {durationText && (
+                                <InfoItem
+                                    icon={Clock}
+                                    label={durationText}
+                                    tooltip="Typical length of a game"
+                                />
+                            )}
+                            {game.energyLevel && (
+                                <InfoItem
+                                    icon={Zap}
+                                    label={prettifyFilterValue(game.energyLevel)}
+                                    tooltip="Energy level"
+                                />
+                            )}
+                            {settingText && (
+                                <InfoItem
+                                    icon={SettingIcon}
+                                    label={settingText}
+                                    tooltip="Where to play and the smallest space needed"
+                                />
+                            )}
                             {prepText && (
                                 <InfoItem
                                     icon={Wrench}
@@ -167,6 +226,11 @@ export function GameCard({ game }: GameCardProps) {
                     <ArrowRight className="h-4 w-4 transition-transform duration-300 group-hover:translate-x-1" />
                 </div>
             </Link>
+            {/* Kept outside the link so the button isn't nested in an anchor */}
+            <div className="absolute right-4 top-4 flex gap-2">
+                <FavouriteButton gameId={game.id} gameName={game.name} variant="icon" />
+                <AddToPlanButton gameId={game.id} gameName={game.name} variant="icon" />
+            </div>
         </Card>
     );
 }
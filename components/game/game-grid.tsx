@@ -7,7 +7,7 @@ import { cn } from "@/lib/utils";
 
 interface GameGridProps {
     games: Game[];
-    resetFilters: () => void;
+    resetFilters?: () => void;
 }
 
 export function GameGrid({ games, resetFilters }: GameGridProps) {
@@ -24,12 +24,14 @@ export function GameGrid({ games, resetFilters }: GameGridProps) {
                 <p className="mb-4 max-w-md text-base text-text-brand/70">
                     No games matched your filters. Try adjusting your search or start fresh.
                 </p>
-                <Button
-                    onClick={resetFilters}
-                    className="rounded-full bg-brand-marigold px-6 py-2 text-sm font-semibold text-brand-ink transition hover:bg-brand-marigold-dark"
-                >
-                    Reset filters
-                </Button>
+                {resetFilters && (
+                    <Button
+                        onClick={resetFilters}
+                        className="rounded-full bg-brand-marigold px-6 py-2 text-sm font-semibold text-brand-ink transition hover:bg-brand-marigold-dark"
+                    >
+                        Reset filters
+                    </Button>
+                )}
             </div>
         );
     }
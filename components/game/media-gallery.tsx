@@ -0,0 +1,58 @@
+import Image from "next/image";
+import { Images } from "lucide-react";
+import { mediaKindLabels, mediaSrc } from "@/lib/media";
+import { GameMedia } from "@/lib/types";
+
+interface MediaGalleryProps {
+    media: GameMedia[];
+    gameName: string;
+}
+
+// Setup diagrams and play photos; each image opens full size in a new tab
+export function MediaGallery({ media, gameName }: MediaGalleryProps) {
+    if (media.length === 0) return null;
+
+    return (
+        <section className="rounded-3xl border border-brand-sprout/20 bg-surface-raised p-6 shadow-sm sm:p-8 print:rounded-none print:border-0 print:p-0 print:shadow-none">
+            <h2 className="mb-6 flex items-center gap-2 font-heading text-xl font-bold text-text-brand print:mb-2">
+                <Images className="h-5 w-5 text-brand-sprout print:hidden" />
+                Pictures
+            </h2>
+            <ul className="grid gap-4 sm:grid-cols-2 print:grid-cols-3 print:gap-2">
+                {media.map((item, index) => {
+                    const src = mediaSrc(item.url);
+                    const alt = item.alt.trim() || `${mediaKindLabels[item.kind]} image for ${gameName}`;
+                    return (
+                        <li key={`${item.url}-${index}`} className="print:break-inside-avoid">
+                            <figure className="space-y-2">
+                                <a
+                                    href={src}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="group relative block aspect-[4/3] overflow-hidden rounded-2xl bg-surface-sunken focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand-marigold"
+                                >
+                                    <Image
+                                        src={src}
+                                        alt={alt}
+                                        fill
+                                        unoptimized
+                                        sizes="(min-width: 1024px) 20rem, (min-width: 640px) 50vw, 100vw"
+                                        className="object-cover transition-transform duration-300 group-hover:scale-105"
+                                    />
+                                    <span className="absolute left-3 top-3 rounded-full bg-white/90 px-2.5 py-0.5 text-[11px] font-bold uppercase tracking-wider text-brand-sprout print:hidden">
+                                        {mediaKindLabels[item.kind]}
+                                    </span>
+                                </a>
+                                {item.caption && (
+                                    <figcaption className="text-sm text-text-brand/70">
+                                        {item.caption}
+                                    </figcaption>
+                                )}
+                            </figure>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+}
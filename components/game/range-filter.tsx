@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Slider } from "@/components/ui/slider";
+import { RangeKey, rangeMeta } from "@/lib/constants";
+import { NumericRange, formatRangeLabel, rangesEqual } from "@/lib/ranges";
+import { cn } from "@/lib/utils";
+
+interface RangeFilterProps {
+    rangeKey: RangeKey;
+    value: NumericRange | null;
+    presetCounts: number[];
+    onChange: (range: NumericRange | null) => void;
+}
+
+const toSliderValue = (
+    range: NumericRange | null,
+    bounds: { min: number; max: number }
+) => [range?.min ?? bounds.min, range?.max ?? bounds.max];
+
+// Thumbs resting on either end of the scale leave that side open.
+const fromSliderValue = (
+    [low, high]: number[],
+    bounds: { min: number; max: number }
+): NumericRange | null => {
+    const min = low <= bounds.min ? null : low;
+    const max = high >= bounds.max ? null : high;
+    return min === null && max === null ? null : { min, max };
+};
+
+export function RangeFilter({
+    rangeKey,
+    value,
+    presetCounts,
+    onChange,
+}: RangeFilterProps) {
+    const { bounds, unit, presets, label } = rangeMeta[rangeKey];
+    const [draft, setDraft] = useState(() => toSliderValue(value, bounds));
+
+    useEffect(() => {
+        setDraft(toSliderValue(value, bounds));
+    }, [value, bounds]);
+
+    const draftRange = fromSliderValue(draft, bounds);
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm font-medium text-text-brand">
+                {formatRangeLabel(draftRange ?? { min: null, max: null }, unit)}
+            </p>
+            <Slider
+                min={bounds.min}
+                max={bounds.max}
+                step={1}
+                minStepsBetweenThumbs={0}
+                value={draft}
+                onValueChange={setDraft}
+                onValueCommit={(next) => onChange(fromSliderValue(next, bounds))}
+                aria-label={`${label} range`}
+                className="px-1"
+            />
+            <div className="flex justify-between text-[11px] text-text-brand/60">
+                <span>{bounds.min}</span>
+                <span>{bounds.max}+</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {presets.map((preset, index) => {
+                    const presetRange = { min: preset.min, max: preset.max };
+                    const isActive = rangesEqual(value, presetRange);
+                    const count = presetCounts[index] ?? 0;
+                    return (
+                        <button
+                            key={preset.label}
+                            type="button"
+                            onClick={() => onChange(isActive ? null : presetRange)}
+                            className={cn(
+                                "flex items-center justify-between rounded-xl px-3 py-2 text-sm transition",
+                                isActive
+                                    ? "bg-surface-highlight text-text-brand shadow-inner"
+                                    : "hover:bg-brand-sprout/10",
+                                count === 0 && !isActive && "opacity-50"
+                            )}
+                            aria-pressed={isActive}
+                        >
+                            <span>{preset.label}</span>
+                            <span className="text-xs text-text-brand/60">{count}</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -9,7 +9,6 @@ import { FormEvent, RefObject } from "react";
 interface SearchBarProps {
     query: string;
     setQuery: (query: string) => void;
-    isSearchFocused: boolean;
     setIsSearchFocused: (focused: boolean) => void;
     showSuggestions: boolean;
     suggestions: Game[];
@@ -21,7 +20,6 @@ interface SearchBarProps {
 export function SearchBar({
     query,
     setQuery,
-    isSearchFocused,
     setIsSearchFocused,
     showSuggestions,
     suggestions,
@@ -0,0 +1,124 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowRight, Baby, Dices, Link2, Users, Wrench } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { formatRangeLabel } from "@/lib/ranges";
+import { Game } from "@/lib/types";
+import { prettifyFilterValue } from "@/lib/utils";
+
+interface SurprisePreviewProps {
+    game: Game | null;
+    candidateCount: number;
+    onClose: () => void;
+    onReroll: () => void;
+    onCopyLink: () => void;
+}
+
+export function SurprisePreview({
+    game,
+    candidateCount,
+    onClose,
+    onReroll,
+    onCopyLink,
+}: SurprisePreviewProps) {
+    const facts = game
+        ? [
+              {
+                  icon: Users,
+                  label: formatRangeLabel(
+                      { min: game.playersMin ?? null, max: game.playersMax ?? null },
+                      "players"
+                  ),
+              },
+              {
+                  icon: Baby,
+                  label: formatRangeLabel(
+                      { min: game.ageMin ?? null, max: game.ageMax ?? null },
+                      "years"
+                  ),
+              },
+              ...(game.prepLevel
+                  ? [{ icon: Wrench, label: `${game.prepLevel} prep` }]
+                  : []),
+          ]
+        : [];
+
+    return (
+        <Dialog open={game !== null} onOpenChange={(open) => !open && onClose()}>
+            {game && (
+                <DialogContent className="rounded-3xl border-brand-sprout/20 bg-surface-raised sm:max-w-lg">
+                    <DialogHeader className="space-y-2 text-left">
+                        <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-brand-sprout">
+                            <Dices className="h-4 w-4" />
+                            Picked from {candidateCount} matching game
+                            {candidateCount === 1 ? "" : "s"}
+                        </p>
+                        <DialogTitle className="font-heading text-2xl text-text-brand">
+                            {game.name}
+                        </DialogTitle>
+                        <DialogDescription className="line-clamp-4 leading-relaxed text-text-brand/70">
+                            {game.description?.trim() ||
+                                "Open the game for its rules and variations."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="flex flex-wrap gap-2">
+                        {game.category && (
+                            <Badge className="rounded-full bg-brand-sprout/10 text-brand-sprout hover:bg-brand-sprout/10">
+                                {prettifyFilterValue(game.category)}
+                            </Badge>
+                        )}
+                        {facts.map(({ icon: Icon, label }) => (
+                            <span
+                                key={label}
+                                className="inline-flex items-center gap-1.5 rounded-full bg-surface-sunken/60 px-3 py-1 text-sm text-text-brand/80"
+                            >
+                                <Icon className="h-3.5 w-3.5 text-brand-sprout" />
+                                {label}
+                            </span>
+                        ))}
+                    </div>
+
+                    <DialogFooter className="gap-2 sm:justify-between">
+                        <div className="flex gap-2">
+                            <Button
+                                variant="outline"
+                                className="gap-2 rounded-full border-brand-sprout/40"
+                                onClick={onReroll}
+                                disabled={candidateCount < 2}
+                            >
+                                <Dices className="h-4 w-4" />
+                                Re-roll
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="rounded-full"
+                                onClick={onCopyLink}
+                                aria-label="Copy a link to this pick"
+                            >
+                                <Link2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <Button asChild className="gap-2 rounded-full">
+                            <Link href={`/game/${game.id}`}>
+                                Open game
+                                <ArrowRight className="h-4 w-4" />
+                            </Link>
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            )}
+        </Dialog>
+    );
+}
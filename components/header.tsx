@@ -9,7 +9,7 @@ export function Header() {
   const { setTheme, theme } = useTheme();
 
   return (
-    <header className="sticky top-0 z-50 w-full border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+    <header className="sticky top-0 z-50 w-full border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60 print:hidden">
       <div className="container flex h-16 items-center justify-between">
         <Link
           href="/"
@@ -18,6 +18,12 @@ export function Header() {
           itsallfunandgames
         </Link>
         <nav className="flex items-center gap-6 text-sm font-medium">
+          <Link href="/favourites" className="hover:text-secondary">
+            Favourites
+          </Link>
+          <Link href="/plan" className="hover:text-secondary">
+            Plan
+          </Link>
           <Link href="/data/quality" className="hover:text-secondary">
             Diagnostics
           </Link>
@@ -0,0 +1,70 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { CalendarPlus, CalendarCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSessionPlan } from "@/hooks/use-session-plan";
+import { cn } from "@/lib/utils";
+
+interface AddToPlanButtonProps {
+    gameId: string;
+    gameName: string;
+    variant?: "icon" | "full";
+    className?: string;
+}
+
+export function AddToPlanButton({
+    gameId,
+    gameName,
+    variant = "full",
+    className,
+}: AddToPlanButtonProps) {
+    const router = useRouter();
+    const { addGame, hasGame } = useSessionPlan();
+    const isPlanned = hasGame(gameId);
+    const Icon = isPlanned ? CalendarCheck : CalendarPlus;
+    const label = isPlanned ? "Add again to plan" : "Add to session plan";
+
+    const handleClick = () => {
+        addGame(gameId);
+        toast.success(`Added “${gameName}” to your session plan`, {
+            action: { label: "View plan", onClick: () => router.push("/plan") },
+        });
+    };
+
+    if (variant === "icon") {
+        return (
+            <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={handleClick}
+                aria-label={`${label}: ${gameName}`}
+                title={label}
+                className={cn(
+                    "h-9 w-9 rounded-full bg-surface-raised text-brand-sprout shadow-sm hover:bg-brand-sprout/15",
+                    isPlanned && "bg-brand-sprout/15",
+                    className
+                )}
+            >
+                <Icon className="h-4 w-4" />
+            </Button>
+        );
+    }
+
+    return (
+        <Button
+            type="button"
+            variant="outline"
+            onClick={handleClick}
+            className={cn(
+                "gap-2 rounded-full border-brand-sprout/40 bg-white text-sm font-semibold text-text-brand hover:bg-brand-sprout/10",
+                className
+            )}
+        >
+            <Icon className="h-4 w-4 text-brand-sprout" />
+            {isPlanned ? "Add again" : "Add to plan"}
+        </Button>
+    );
+}
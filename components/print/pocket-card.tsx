@@ -0,0 +1,78 @@
+import { Markdown } from "@/components/markdown";
+import { formatRulesMarkdown } from "@/lib/print";
+import { formatRangeLabel } from "@/lib/ranges";
+import { Game } from "@/lib/types";
+import { cn, prettifyFilterValue } from "@/lib/utils";
+
+interface PocketCardProps {
+    game: Game;
+    compact?: boolean;
+}
+
+// A single game trimmed to what a facilitator needs in the field
+export function PocketCard({ game, compact = false }: PocketCardProps) {
+    const rulesMarkdown = formatRulesMarkdown(game.generalRules);
+    const facts = [
+        game.category ? prettifyFilterValue(game.category) : null,
+        game.playersMin != null || game.playersMax != null
+            ? formatRangeLabel(
+                  { min: game.playersMin ?? null, max: game.playersMax ?? null },
+                  "players"
+              )
+            : null,
+        game.ageMin != null || game.ageMax != null
+            ? formatRangeLabel(
+                  { min: game.ageMin ?? null, max: game.ageMax ?? null },
+                  "years"
+              )
+            : null,
+        game.prepLevel ? `${game.prepLevel} prep` : null,
+    ].filter((fact): fact is string => Boolean(fact));
+
+    return (
+        <article
+            className={cn(
+                "flex h-full flex-col gap-2 overflow-hidden rounded-xl border border-dashed border-neutral-400 bg-white p-4 text-neutral-900",
+                compact ? "text-[9pt] leading-snug" : "text-[10.5pt] leading-normal"
+            )}
+        >
+            <header className="border-b border-neutral-300 pb-1.5">
+                <h2
+                    className={cn(
+                        "font-heading font-bold leading-tight",
+                        compact ? "text-[13pt]" : "text-[16pt]"
+                    )}
+                >
+                    {game.name}
+                </h2>
+                {facts.length > 0 && (
+                    <p className="mt-0.5 text-neutral-600">{facts.join(" · ")}</p>
+                )}
+            </header>
+
+            {game.equipment && (
+                <p>
+                    <span className="font-semibold">Equipment: </span>
+                    {game.equipment}
+                </p>
+            )}
+
+            {rulesMarkdown && (
+                <div className="min-h-0 flex-1 overflow-hidden [&_ol]:list-decimal [&_ol]:pl-4 [&_p]:mb-1.5 [&_ul]:list-disc [&_ul]:pl-4">
+                    <Markdown content={rulesMarkdown} />
+                </div>
+            )}
+
+            {game.variations.length > 0 && (
+                <div>
+                    <p className="font-semibold">Variations</p>
+                    <ul className="list-disc pl-4">
+                        {game.variations.slice(0, compact ? 2 : 4).map((variation, index) => (
+                            <li key={index}>{variation}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </article>
+    );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface PrintButtonProps {
+    label?: string;
+    disabled?: boolean;
+    className?: string;
+}
+
+export function PrintButton({
+    label = "Print",
+    disabled,
+    className,
+}: PrintButtonProps) {
+    return (
+        <Button
+            type="button"
+            variant="outline"
+            onClick={() => window.print()}
+            disabled={disabled}
+            className={cn(
+                "gap-2 rounded-full border-brand-sprout/40 bg-white text-sm font-semibold text-text-brand hover:bg-brand-sprout/10",
+                className
+            )}
+        >
+            <Printer className="h-4 w-4 text-brand-sprout" />
+            {label}
+        </Button>
+    );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { z } from "zod";
+
+// Same-tab subscribers per key; the `storage` event only fires in other tabs.
+const listeners = new Map<string, Set<() => void>>();
+// Parsed values per key, reused while the stored string is unchanged.
+const snapshots = new Map<string, { raw: string | null; value: unknown }>();
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const readRaw = (key: string) => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * State persisted to localStorage and shared by every component using the
+ * same key. Stored values are validated with `schema`; anything that fails
+ * falls back to `fallback`, which must be a stable (module-level) value.
+ */
+export function useLocalStorageState<T>(
+  key: string,
+  schema: z.ZodType<T>,
+  fallback: T
+): [T, (update: T | ((current: T) => T)) => void] {
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const keyListeners = listeners.get(key) ?? new Set();
+      keyListeners.add(listener);
+      listeners.set(key, keyListeners);
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) listener();
+      };
+      window.addEventListener("storage", handleStorage);
+      return () => {
+        keyListeners.delete(listener);
+        window.removeEventListener("storage", handleStorage);
+      };
+    },
+    [key]
+  );
+
+  const getSnapshot = useCallback((): T => {
+    const raw = readRaw(key);
+    const cached = snapshots.get(key);
+    if (cached && cached.raw === raw) return cached.value as T;
+
+    let value = fallback;
+    if (raw !== null) {
+      try {
+        const parsed = schema.safeParse(JSON.parse(raw));
+        if (parsed.success) value = parsed.data;
+      } catch {
+        // Corrupt JSON is treated as empty storage
+      }
+    }
+    snapshots.set(key, { raw, value });
+    return value;
+  }, [key, schema, fallback]);
+
+  const value = useSyncExternalStore(subscribe, getSnapshot, () => fallback);
+
+  const setValue = useCallback(
+    (update: T | ((current: T) => T)) => {
+      const current = getSnapshot();
+      const next =
+        typeof update === "function"
+          ? (update as (current: T) => T)(current)
+          : update;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(next));
+      } catch {
+        // Storage can be full or disabled; keep the in-memory value
+        snapshots.set(key, { raw: readRaw(key), value: next });
+      }
+      notify(key);
+    },
+    [key, getSnapshot]
+  );
+
+  return [value, setValue];
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback } from "react";
+import { z } from "zod";
+import {
+  DEFAULT_SLOT_MINUTES,
+  SessionPlan,
+  createEmptyPlan,
+} from "@/lib/plan";
+import { useLocalStorageState } from "./use-local-storage-state";
+
+const STORAGE_KEY = "itsallfunandgames-plan";
+
+const SessionPlanSchema: z.ZodType<SessionPlan> = z.object({
+  title: z.string().catch(""),
+  slots: z.array(
+    z.object({
+      id: z.string(),
+      gameId: z.string(),
+      minutes: z.number().int().min(0),
+    })
+  ),
+});
+
+const emptyPlan = createEmptyPlan();
+
+const createSlotId = (gameId: string) =>
+  `${gameId}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export function useSessionPlan() {
+  const [plan, setPlan] = useLocalStorageState(
+    STORAGE_KEY,
+    SessionPlanSchema,
+    emptyPlan
+  );
+
+  const addGame = useCallback(
+    (gameId: string, minutes = DEFAULT_SLOT_MINUTES) =>
+      setPlan((current) => ({
+        ...current,
+        slots: [...current.slots, { id: createSlotId(gameId), gameId, minutes }],
+      })),
+    [setPlan]
+  );
+
+  const removeSlot = useCallback(
+    (slotId: string) =>
+      setPlan((current) => ({
+        ...current,
+        slots: current.slots.filter((slot) => slot.id !== slotId),
+      })),
+    [setPlan]
+  );
+
+  const moveSlot = useCallback(
+    (slotId: string, offset: number) =>
+      setPlan((current) => {
+        const from = current.slots.findIndex((slot) => slot.id === slotId);
+        const to = from + offset;
+        if (from === -1 || to < 0 || to >= current.slots.length) return current;
+        const slots = [...current.slots];
+        const [moved] = slots.splice(from, 1);
+        slots.splice(to, 0, moved);
+        return { ...current, slots };
+      }),
+    [setPlan]
+  );
+
+  const setSlotMinutes = useCallback(
+    (slotId: string, minutes: number) =>
+      setPlan((current) => ({
+        ...current,
+        slots: current.slots.map((slot) =>
+          slot.id === slotId
+            ? { ...slot, minutes: Math.max(0, Math.round(minutes) || 0) }
+            : slot
+        ),
+      })),
+    [setPlan]
+  );
+
+  const setTitle = useCallback(
+    (title: string) => setPlan((current) => ({ ...current, title })),
+    [setPlan]
+  );
+
+  const clearPlan = useCallback(() => setPlan(createEmptyPlan()), [setPlan]);
+
+  const hasGame = useCallback(
+    (gameId: string) => plan.slots.some((slot) => slot.gameId === gameId),
+    [plan]
+  );
+
+  return {
+    plan,
+    addGame,
+    removeSlot,
+    moveSlot,
+    setSlotMinutes,
+    setTitle,
+    clearPlan,
+    hasGame,
+  };
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback } from "react";
+import { z } from "zod";
+import {
+  DEFAULT_SHORTLIST_ID,
+  SharedShortlist,
+  Shortlist,
+  createDefaultShortlists,
+  createShortlistId,
+} from "@/lib/shortlists";
+import { useLocalStorageState } from "./use-local-storage-state";
+
+const STORAGE_KEY = "itsallfunandgames-shortlists";
+
+const ShortlistsSchema: z.ZodType<Shortlist[]> = z
+  .array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      gameIds: z.array(z.string()),
+    })
+  )
+  .refine((lists) => lists.some((list) => list.id === DEFAULT_SHORTLIST_ID));
+
+const defaultShortlists = createDefaultShortlists();
+
+export function useShortlists() {
+  const [shortlists, setShortlists] = useLocalStorageState(
+    STORAGE_KEY,
+    ShortlistsSchema,
+    defaultShortlists
+  );
+
+  const toggleGame = useCallback(
+    (listId: string, gameId: string) =>
+      setShortlists((current) =>
+        current.map((list) =>
+          list.id !== listId
+            ? list
+            : {
+                ...list,
+                gameIds: list.gameIds.includes(gameId)
+                  ? list.gameIds.filter((id) => id !== gameId)
+                  : [...list.gameIds, gameId],
+              }
+        )
+      ),
+    [setShortlists]
+  );
+
+  // Returns the new list's id so callers can select it straight away. The id
+  // comes from the stored lists, which the setter passes in synchronously, so
+  // two lists created before a re-render still get different ids.
+  const createList = useCallback(
+    (name: string, gameIds: string[] = []) => {
+      const trimmed = name.trim() || "Untitled list";
+      let id = "";
+      setShortlists((current) => {
+        id = createShortlistId(trimmed, current);
+        return [...current, { id, name: trimmed, gameIds }];
+      });
+      return id;
+    },
+    [setShortlists]
+  );
+
+  const renameList = useCallback(
+    (listId: string, name: string) =>
+      setShortlists((current) =>
+        current.map((list) => (list.id === listId ? { ...list, name } : list))
+      ),
+    [setShortlists]
+  );
+
+  // The default list can be emptied but not removed
+  const deleteList = useCallback(
+    (listId: string) =>
+      setShortlists((current) =>
+        listId === DEFAULT_SHORTLIST_ID
+          ? current.map((list) =>
+              list.id === listId ? { ...list, gameIds: [] } : list
+            )
+          : current.filter((list) => list.id !== listId)
+      ),
+    [setShortlists]
+  );
+
+  const importList = useCallback(
+    ({ name, gameIds }: SharedShortlist) => createList(name, gameIds),
+    [createList]
+  );
+
+  const isSaved = useCallback(
+    (gameId: string) => shortlists.some((list) => list.gameIds.includes(gameId)),
+    [shortlists]
+  );
+
+  return {
+    shortlists,
+    toggleGame,
+    createList,
+    renameList,
+    deleteList,
+    importList,
+    isSaved,
+  };
+}
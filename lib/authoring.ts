@@ -0,0 +1,179 @@
+// lib/authoring.ts
+import { z } from 'zod';
+import { normaliseRawGame, normaliseRecord } from './normalise';
+import { GameSchema } from './types';
+
+type UnknownRecord = Record<string, unknown>;
+
+// Fields derived by the loader rather than authored
+const derivedFields = new Set(['sourceText']);
+// Written by the tools, never prompted for
+const metadataFields = new Set(['schemaVersion', 'addedOrder']);
+
+// Authored fields in schema order; this is the canonical key order on disk
+export const gameFieldOrder = Object.keys(GameSchema.shape).filter(
+  (key) => !derivedFields.has(key)
+);
+
+// `media` is a list of objects (url, alt, caption, kind) rather than strings
+export type GameFieldKind = 'text' | 'integer' | 'choice' | 'list' | 'media';
+
+export interface GameField {
+  key: string;
+  kind: GameFieldKind;
+  required: boolean;
+  options: string[];
+}
+
+// Strips optional/nullable/default wrappers to find the underlying type
+const unwrapField = (schema: z.ZodType) => {
+  let current = schema;
+  let required = true;
+  while (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodNullable ||
+    current instanceof z.ZodDefault
+  ) {
+    required = false;
+    current = current.unwrap() as z.ZodType;
+  }
+  return { schema: current, required };
+};
+
+// Prompt metadata for every authored field, read from `GameSchema`
+export const describeGameFields = (): GameField[] =>
+  gameFieldOrder.filter((key) => !metadataFields.has(key)).map((key) => {
+    const { schema, required } = unwrapField(
+      GameSchema.shape[key as keyof typeof GameSchema.shape] as z.ZodType
+    );
+    const type = schema.def.type;
+    const element = schema instanceof z.ZodArray ? (schema.element as z.ZodType) : null;
+    const elementType = element?.def.type ?? null;
+    const kind: GameFieldKind =
+      type === 'number'
+        ? 'integer'
+        : type === 'enum'
+          ? 'choice'
+          : elementType === 'object'
+            ? 'media'
+            : type === 'array'
+              ? 'list'
+              : 'text';
+    // Lists of vocabulary terms, such as `surfaces`, offer their options too
+    const options =
+      kind === 'choice'
+        ? [...(schema as z.ZodEnum).options].map(String)
+        : elementType === 'enum'
+          ? [...(element as z.ZodEnum).options].map(String)
+          : [];
+    return { key, kind, required, options };
+  });
+
+// Known fields first in canonical order, then any other keys as found
+export const orderGameKeys = (record: UnknownRecord): UnknownRecord => {
+  const ordered: UnknownRecord = {};
+  gameFieldOrder.forEach((key) => {
+    if (key in record) ordered[key] = record[key];
+  });
+  Object.keys(record).forEach((key) => {
+    if (!(key in ordered)) ordered[key] = record[key];
+  });
+  return ordered;
+};
+
+const MAX_INLINE_WIDTH = 100;
+const isPrimitive = (value: unknown) => value === null || typeof value !== 'object';
+
+const formatValue = (value: unknown, indent: string, prefixWidth: number): string => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    if (value.every(isPrimitive)) {
+      const inline = `[${value.map((item) => JSON.stringify(item)).join(', ')}]`;
+      if (prefixWidth + inline.length <= MAX_INLINE_WIDTH) return inline;
+    }
+    const inner = `${indent}  `;
+    const items = value.map((item) => `${inner}${formatValue(item, inner, inner.length)}`);
+    return `[\n${items.join(',\n')}\n${indent}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as UnknownRecord);
+    if (entries.length === 0) return '{}';
+    const inner = `${indent}  `;
+    const lines = entries.map(([key, item]) => {
+      const prefix = `${inner}${JSON.stringify(key)}: `;
+      return `${prefix}${formatValue(item, inner, prefix.length + 1)}`;
+    });
+    return `{\n${lines.join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Serialises the dataset the same way every time: two-space indent, keys in
+ * canonical order, short lists of strings kept on one line, LF endings.
+ */
+export const formatGamesJson = (records: unknown[]) =>
+  `${formatValue(
+    records.map((record) =>
+      record !== null && typeof record === 'object' && !Array.isArray(record)
+        ? orderGameKeys(record as UnknownRecord)
+        : record
+    ),
+    '',
+    0
+  )}\n`;
+
+// One record on its own, as written to a `data/games/<id>.json` source file
+export const formatGameRecord = (record: UnknownRecord) =>
+  `${formatValue(orderGameKeys(record), '', 0)}\n`;
+
+/**
+ * Problems that would stop `records[index]` reaching the catalogue: schema
+ * failures after normalisation, a missing id, or an id already used by an
+ * earlier record.
+ */
+export const validateGameRecord = (records: unknown[], index: number): string[] => {
+  const { id, errors: recordErrors } = normaliseRecord(records[index]);
+  const errors = recordErrors.map(({ type, path, message }) =>
+    type === 'missing-id'
+      ? 'id: unable to derive an id; add a name or an explicit id'
+      : path
+        ? `${path}: ${message}`
+        : message
+  );
+
+  // The loader keeps the first record with an id and drops the rest
+  if (id) {
+    const firstIndex = records.findIndex((record) => normaliseRawGame(record).id === id);
+    if (firstIndex !== -1 && firstIndex < index) {
+      errors.push(`id: "${id}" is already used by entry #${firstIndex + 1}`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Problems in `next` that the record at the same position in `previous`
+ * didn't already have, as `entry #n: message` lines. The records at `indexes`
+ * are checked, along with every record sharing an id with one of them: giving
+ * a record the id of a later one makes the later one the duplicate. Writing
+ * around an existing problem, such as a duplicate id elsewhere in the file,
+ * is allowed; introducing one is not.
+ */
+export const findNewRecordProblems = (previous: unknown[], next: unknown[], indexes: number[]) => {
+  const writtenIds = new Set(
+    indexes.map((index) => normaliseRawGame(next[index]).id).filter(Boolean)
+  );
+  return next.flatMap((record, index) => {
+    if (!indexes.includes(index) && !writtenIds.has(normaliseRawGame(record).id)) return [];
+    const existing = new Set(index < previous.length ? validateGameRecord(previous, index) : []);
+    return validateGameRecord(next, index)
+      .filter((message) => !existing.has(message))
+      .map((message) => `entry #${index + 1}: ${message}`);
+  });
+};
+
+// Indexes of every record whose explicit or derived id matches
+export const findGameIndexes = (records: unknown[], id: string) =>
+  records.flatMap((record, index) => (normaliseRawGame(record).id === id ? [index] : []));
@@ -1,26 +1,45 @@
 import {
     Activity,
+    Armchair,
+    Baby,
+    BrickWall,
     Brain,
     CircleDashed,
+    Clock,
     Globe2,
+    Goal,
+    Grid2x2,
     Handshake,
+    House,
+    Layers,
     Map,
     MapPinned,
     MoonStar,
     Music,
     PartyPopper,
+    Ruler,
     School,
     Scissors,
     ScrollText,
     Search as SearchIcon,
+    Shell,
     Sparkles,
+    Sprout,
     Tag,
+    TreePine,
+    Trees,
     Users,
     UsersRound,
     Volleyball,
+    Warehouse,
     Wrench,
+    Zap,
     LucideIcon,
 } from "lucide-react";
+import { spaceSizes } from "./vocabulary";
+
+// The site's `basePath` in next.config.mjs, for hrefs that Next.js doesn't prefix
+export const BASE_PATH = "/Itsallfunandgames";
 
 export const facetKeys = [
     "category",
@@ -29,14 +48,55 @@ export const facetKeys = [
     "prepLevel",
     "skillsDeveloped",
     "regionalPopularity",
+    "energyLevel",
+    "setting",
+    "minSpace",
+    "surfaces",
 ] as const;
 
 export type FacetKey = (typeof facetKeys)[number];
 
+export const facetModes = ["any", "all", "exclude"] as const;
+
+export type FacetMode = (typeof facetModes)[number];
+
+export const facetModeMeta: Record<FacetMode, { label: string; description: string }> = {
+    any: { label: "Any", description: "Games with at least one selected option." },
+    all: { label: "All", description: "Games with every selected option." },
+    exclude: { label: "Exclude", description: "Games without any selected option." },
+};
+
+export const sortModes = [
+    "relevance",
+    "name",
+    "age",
+    "players",
+    "prep",
+    "recent",
+] as const;
+
+export type SortMode = (typeof sortModes)[number];
+
+export const sortMeta: Record<SortMode, { label: string }> = {
+    relevance: { label: "Best match" },
+    name: { label: "Name (A\u2013Z)" },
+    age: { label: "Youngest age first" },
+    players: { label: "Smallest group first" },
+    prep: { label: "Least prep first" },
+    recent: { label: "Recently added" },
+};
+
+export const rangeKeys = ["age", "players", "duration"] as const;
+
+export type RangeKey = (typeof rangeKeys)[number];
+
+export type FilterGroupKey = FacetKey | RangeKey;
+
 export const categoryIcons: Record<string, LucideIcon> = {
     Group: UsersRound,
     Party: PartyPopper,
     Wide: Map,
+    "Physical Activity": Activity,
 };
 
 export const tagIcons: Partial<Record<string, LucideIcon>> = {
@@ -54,6 +114,26 @@ export const tagIcons: Partial<Record<string, LucideIcon>> = {
     teamwork: Handshake,
 };
 
+export const settingIcons: Record<string, LucideIcon> = {
+    Indoor: House,
+    Outdoor: Trees,
+};
+
+export const spaceIcons: Record<string, LucideIcon> = {
+    Table: Armchair,
+    Room: School,
+    Hall: Warehouse,
+    Field: Goal,
+};
+
+export const surfaceIcons: Record<string, LucideIcon> = {
+    Grass: Sprout,
+    "Hard court": BrickWall,
+    "Indoor floor": Grid2x2,
+    Woodland: TreePine,
+    Sand: Shell,
+};
+
 export const filterMeta: Record<
     FacetKey,
     {
@@ -62,6 +142,11 @@ export const filterMeta: Record<
         icon: LucideIcon;
         optionIcons?: Partial<Record<string, LucideIcon>>;
         emphasizedSearch?: boolean;
+        // "all" only makes sense for fields that hold several values
+        modes: readonly FacetMode[];
+        // Options ordered smallest to largest: picking one matches games
+        // whose value is that size or smaller, and games without a value
+        scale?: readonly string[];
     }
 > = {
     category: {
@@ -69,32 +154,119 @@ export const filterMeta: Record<
         description: "Choose the type of group you're playing with.",
         icon: Users,
         optionIcons: categoryIcons,
+        modes: ["any", "exclude"],
     },
     tags: {
         label: "Type",
         description: "Pick the vibe or activity style.",
         icon: Tag,
         optionIcons: tagIcons,
+        modes: ["any", "all", "exclude"],
     },
     traditionality: {
         label: "Traditionality",
         description: "Explore classics or contemporary twists.",
         icon: ScrollText,
+        modes: ["any", "exclude"],
     },
     prepLevel: {
         label: "Prep Level",
         description: "How much setup time do you have?",
         icon: Wrench,
+        modes: ["any", "exclude"],
     },
     skillsDeveloped: {
         label: "Skills",
         description: "Focus on the skills you want to encourage.",
         icon: Sparkles,
         emphasizedSearch: true,
+        modes: ["any", "all", "exclude"],
     },
     regionalPopularity: {
         label: "Region",
         description: "See what's popular in different places.",
         icon: Globe2,
+        modes: ["any", "all", "exclude"],
+    },
+    energyLevel: {
+        label: "Energy",
+        description: "From calm and seated to running about.",
+        icon: Zap,
+        modes: ["any", "exclude"],
+    },
+    setting: {
+        label: "Setting",
+        description: "Playing inside, outside, or either?",
+        icon: Trees,
+        optionIcons: settingIcons,
+        modes: ["any", "all", "exclude"],
+    },
+    minSpace: {
+        label: "Space",
+        description: "How much room do you have? Shows games that fit in it.",
+        icon: Ruler,
+        optionIcons: spaceIcons,
+        modes: ["any"],
+        scale: spaceSizes,
+    },
+    surfaces: {
+        label: "Surface",
+        description: "What's underfoot where you're playing?",
+        icon: Layers,
+        optionIcons: surfaceIcons,
+        modes: ["any", "all", "exclude"],
+    },
+};
+
+export const rangeMeta: Record<
+    RangeKey,
+    {
+        label: string;
+        description: string;
+        icon: LucideIcon;
+        unit: string;
+        // Slider bounds; the top of the scale means "and above".
+        bounds: { min: number; max: number };
+        presets: { label: string; min: number | null; max: number | null }[];
+    }
+> = {
+    age: {
+        label: "Age",
+        description: "How old are the players?",
+        icon: Baby,
+        unit: "years",
+        bounds: { min: 3, max: 18 },
+        presets: [
+            { label: "Under 5", min: null, max: 4 },
+            { label: "5\u20137", min: 5, max: 7 },
+            { label: "8\u201311", min: 8, max: 11 },
+            { label: "12+", min: 12, max: null },
+        ],
+    },
+    players: {
+        label: "Group size",
+        description: "How many people are playing?",
+        icon: Users,
+        unit: "players",
+        bounds: { min: 1, max: 30 },
+        presets: [
+            { label: "2\u20134", min: 2, max: 4 },
+            { label: "5\u201310", min: 5, max: 10 },
+            { label: "11\u201320", min: 11, max: 20 },
+            { label: "21+", min: 21, max: null },
+        ],
+    },
+    duration: {
+        label: "Duration",
+        description: "How long do you have for one game?",
+        icon: Clock,
+        unit: "minutes",
+        bounds: { min: 5, max: 60 },
+        presets: [
+            { label: "Under 10", min: null, max: 9 },
+            { label: "10\u201320", min: 10, max: 20 },
+            { label: "20\u201330", min: 20, max: 30 },
+            { label: "30+", min: 30, max: null },
+        ],
     },
 };
@@ -0,0 +1,241 @@
+// lib/contentLint.ts
+import { normaliseRecord } from './normalise';
+import type { Game } from './types';
+import { slugify } from './utils';
+
+type UnknownRecord = Record<string, unknown>;
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintProblem {
+  // Dotted field path such as `generalRules.2`
+  path: string;
+  message: string;
+}
+
+/**
+ * One content check. `check` reads the published game; `fix`, when a rule
+ * has one, rewrites the source record so the check passes and returns the
+ * record unchanged when there is nothing to fix.
+ */
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check: (game: Game) => LintProblem[];
+  fix?: (record: UnknownRecord) => UnknownRecord;
+}
+
+export interface LintFinding extends LintProblem {
+  ruleId: string;
+  severity: LintSeverity;
+  // Zero-based position in the source array; shown to people as "entry #n"
+  index: number;
+  id: string;
+  name: string;
+  fixable: boolean;
+}
+
+export interface LintRuleSummary {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  count: number;
+  // Whether the rule has an autofix, and how many findings it would clear
+  hasFix: boolean;
+  fixableCount: number;
+}
+
+export const MIN_DESCRIPTION_LENGTH = 40;
+export const MAX_DESCRIPTION_LENGTH = 300;
+
+const KEBAB_CASE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+// How the catalogue labels an objective: "Objective:", "How to Win:",
+// "Winning:", "The object of the game is…"
+const OBJECTIVE_LABEL =
+  /^(?:objective|goal|aim|how to win|winning|object of the game|the (?:aim|goal|object)(?: of the game)? is)\b/i;
+// An opening sentence that says what players are after or who wins
+const OBJECTIVE_WORDS = /\b(?:objective|goal|aim|object of the game|how to win|winning|wins?|winner)\b/i;
+
+// "1. **Objective:** Be the last…" reads as "Objective: Be the last…"
+const plainText = (entry: string) =>
+  entry
+    .replace(/[*_`]/g, '')
+    .trim()
+    .replace(/^\d+[.)]?\s+/, '');
+const firstSentence = (entry: string) => plainText(entry).split(/(?<=[.!?])\s+/)[0];
+const opensWithObjective = (rules: string[]) =>
+  rules.length > 0 && OBJECTIVE_WORDS.test(firstSentence(rules[0]));
+
+// A labelled objective further down the rules, with the entry after it when
+// the label is a bare heading such as "**How to Win:**"
+const findBuriedObjective = (rules: string[]) => {
+  if (opensWithObjective(rules)) return null;
+  const position = rules.findIndex((entry, index) => index > 0 && OBJECTIVE_LABEL.test(plainText(entry)));
+  if (position === -1) return null;
+  const isHeading = plainText(rules[position]).endsWith(':') && position + 1 < rules.length;
+  return { position, length: isHeading ? 2 : 1 };
+};
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Problems with the inline Markdown of one rules entry, as `formatRulesMarkdown` renders it
+export const findMarkdownProblems = (entry: string): string[] => {
+  const problems: string[] = [];
+  const code = entry.match(/`/g)?.length ?? 0;
+  if (code % 2 === 1) problems.push('an unclosed `code` span');
+  const prose = entry.replace(/`[^`]*`/g, '');
+  const bold = prose.match(/\*\*/g)?.length ?? 0;
+  if (bold % 2 === 1) problems.push('unbalanced ** bold markers');
+  if (/\[[^\]]*\]\([^)]*$/.test(prose)) problems.push('a link without its closing )');
+  if (/\]\(\s*\)/.test(prose)) problems.push('a link with no address');
+  return problems;
+};
+
+export const contentLintRules: LintRule[] = [
+  {
+    id: 'rules-objective-first',
+    severity: 'warning',
+    description: 'Rules that state the objective open with it.',
+    check: (game) => {
+      const buried = findBuriedObjective(game.generalRules);
+      return buried
+        ? [{ path: `generalRules.${buried.position}`, message: 'Move the objective to the top of the rules.' }]
+        : [];
+    },
+    fix: (record) => {
+      const rules = record.generalRules;
+      if (!Array.isArray(rules) || rules.some((entry) => typeof entry !== 'string')) return record;
+      const buried = findBuriedObjective(rules);
+      if (!buried) return record;
+      const objective = rules.slice(buried.position, buried.position + buried.length);
+      const rest = rules.filter(
+        (_, index) => index < buried.position || index >= buried.position + buried.length
+      );
+      return { ...record, generalRules: [...objective, ...rest] };
+    },
+  },
+  {
+    id: 'description-length',
+    severity: 'warning',
+    description: `Descriptions are ${MIN_DESCRIPTION_LENGTH}–${MAX_DESCRIPTION_LENGTH} characters: a sentence or two.`,
+    check: (game) => {
+      if (!game.description) return [];
+      const length = game.description.length;
+      if (length < MIN_DESCRIPTION_LENGTH) {
+        return [{ path: 'description', message: `Only ${length} characters; say what players do.` }];
+      }
+      if (length > MAX_DESCRIPTION_LENGTH) {
+        return [{ path: 'description', message: `${length} characters; move detail into the rules.` }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'equipment-none',
+    severity: 'warning',
+    description: 'Games without equipment leave `equipment` empty rather than writing “None”.',
+    check: (game) =>
+      game.equipment && /^(?:none|n\/a|nothing)\.?$/i.test(game.equipment.trim())
+        ? [{ path: 'equipment', message: `“${game.equipment}” should be left empty.` }]
+        : [],
+    fix: (record) =>
+      typeof record.equipment === 'string' && /^(?:none|n\/a|nothing)\.?$/i.test(record.equipment.trim())
+        ? { ...record, equipment: null }
+        : record,
+  },
+  {
+    id: 'tag-format',
+    severity: 'warning',
+    description: 'Tags are lowercase-kebab, such as `warm-up`.',
+    check: (game) =>
+      game.tags.flatMap((tag, index) =>
+        KEBAB_CASE.test(tag)
+          ? []
+          : [{ path: `tags.${index}`, message: `“${tag}” should be “${slugify(tag) || '(remove)'}”.` }]
+      ),
+    fix: (record) => {
+      const tags = stringList(record.tags);
+      if (tags.every((tag) => KEBAB_CASE.test(tag))) return record;
+      return { ...record, tags: [...new Set(tags.map(slugify).filter(Boolean))] };
+    },
+  },
+  {
+    id: 'rules-markdown',
+    severity: 'error',
+    description: 'Rules entries are valid Markdown, with every marker and link closed.',
+    check: (game) =>
+      game.generalRules.flatMap((entry, index) => {
+        const problems = findMarkdownProblems(entry);
+        return problems.length > 0
+          ? [{ path: `generalRules.${index}`, message: `Broken Markdown: ${problems.join(', ')}.` }]
+          : [];
+      }),
+  },
+];
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Runs the rules over every record that would be published and returns one
+ * finding per problem, in source order. Records that fail the schema or reuse
+ * an earlier id are left to validation. A finding is `fixable` when the
+ * rule's fix would change that record.
+ */
+export const lintDataset = (rawRecords: unknown[], rules: LintRule[] = contentLintRules): LintFinding[] => {
+  const seenIds = new Set<string>();
+  return rawRecords.flatMap((rawRecord, index) => {
+    const { game } = normaliseRecord(rawRecord);
+    if (!game || seenIds.has(game.id) || !isRecord(rawRecord)) return [];
+    seenIds.add(game.id);
+    return rules.flatMap((rule) => {
+      const problems = rule.check(game);
+      const fixable = problems.length > 0 && rule.fix !== undefined && rule.fix(rawRecord) !== rawRecord;
+      return problems.map((problem) => ({
+        ...problem,
+        ruleId: rule.id,
+        severity: rule.severity,
+        index,
+        id: game.id,
+        name: game.name,
+        fixable,
+      }));
+    });
+  });
+};
+
+// Every rule with the number of findings it produced, errors first
+export const summariseLintFindings = (
+  findings: LintFinding[],
+  rules: LintRule[] = contentLintRules
+): LintRuleSummary[] =>
+  rules
+    .map(({ id, severity, description, fix }) => {
+      const matching = findings.filter((finding) => finding.ruleId === id);
+      return {
+        id,
+        severity,
+        description,
+        count: matching.length,
+        hasFix: fix !== undefined,
+        fixableCount: matching.filter((finding) => finding.fixable).length,
+      };
+    })
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+/**
+ * Applies every autofix to one source record. `applied` lists the rules that
+ * changed it; a fix that can't help, such as a missing objective, changes
+ * nothing and is left out.
+ */
+export const applyLintFixes = (record: UnknownRecord, rules: LintRule[] = contentLintRules) =>
+  rules.reduce(
+    (result, rule) => {
+      if (!rule.fix) return result;
+      const next = rule.fix(result.record);
+      return next === result.record ? result : { record: next, applied: [...result.applied, rule.id] };
+    },
+    { record, applied: [] as string[] }
+  );
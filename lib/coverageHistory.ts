@@ -0,0 +1,86 @@
+// lib/coverageHistory.ts
+import fs from 'fs';
+import { percentage, type CoverageMetric, type QualityReport } from './qualityReport';
+
+// Committed with the data so coverage can be compared across builds
+export const COVERAGE_HISTORY_FILE = 'data/quality-history.json';
+
+export interface CoverageSnapshot {
+  // Day the snapshot was taken, as YYYY-MM-DD
+  date: string;
+  publishedCount: number;
+  // Keyed by coverage metric label
+  metrics: Record<string, { present: number; total: number }>;
+}
+
+export interface CoverageTrend {
+  label: string;
+  // Percentage at each snapshot, oldest first; null before the metric existed
+  points: (number | null)[];
+  first: number | null;
+  latest: number | null;
+  change: number | null;
+}
+
+export const today = () => new Date().toISOString().slice(0, 10);
+
+export const createCoverageSnapshot = (date: string, report: QualityReport): CoverageSnapshot => ({
+  date,
+  publishedCount: report.includedCount,
+  metrics: Object.fromEntries(
+    report.coverageMetrics.map(({ label, present, total }) => [label, { present, total }])
+  ),
+});
+
+// Keeps one snapshot per day, so a later run on the same day replaces the earlier one
+export const appendCoverageSnapshot = (history: CoverageSnapshot[], snapshot: CoverageSnapshot) =>
+  [...history.filter((entry) => entry.date !== snapshot.date), snapshot].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+
+/**
+ * One trend per current metric across the history. Metrics are matched by
+ * label, so renaming one in `createCoverageMetrics` starts a new trend.
+ */
+export const buildCoverageTrends = (
+  history: CoverageSnapshot[],
+  metrics: CoverageMetric[]
+): CoverageTrend[] =>
+  metrics.map(({ label }) => {
+    const points = history.map((snapshot) => {
+      const metric = snapshot.metrics[label];
+      return metric ? percentage(metric.present, metric.total) : null;
+    });
+    const measured = points.filter((point): point is number => point !== null);
+    const first = measured[0] ?? null;
+    const latest = measured[measured.length - 1] ?? null;
+    return {
+      label,
+      points,
+      first,
+      latest,
+      change: first === null || latest === null ? null : Math.round((latest - first) * 10) / 10,
+    };
+  });
+
+export const readCoverageHistory = (filePath: string = COVERAGE_HISTORY_FILE): CoverageSnapshot[] =>
+  fs.existsSync(filePath)
+    ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CoverageSnapshot[])
+    : [];
+
+// One line per metric keeps diffs of the history file small
+export const formatCoverageHistory = (history: CoverageSnapshot[]) => {
+  const snapshots = history.map((snapshot) => {
+    const metrics = Object.entries(snapshot.metrics)
+      .map(([label, metric]) => `      ${JSON.stringify(label)}: ${JSON.stringify(metric)}`)
+      .join(',\n');
+    return [
+      '  {',
+      `    "date": ${JSON.stringify(snapshot.date)},`,
+      `    "publishedCount": ${snapshot.publishedCount},`,
+      `    "metrics": {\n${metrics}\n    }`,
+      '  }',
+    ].join('\n');
+  });
+  return snapshots.length > 0 ? `[\n${snapshots.join(',\n')}\n]\n` : '[]\n';
+};
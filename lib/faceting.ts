@@ -0,0 +1,125 @@
+// lib/faceting.ts
+import {
+  FacetKey,
+  FacetMode,
+  FilterGroupKey,
+  RangeKey,
+  facetKeys,
+  filterMeta,
+  rangeKeys,
+  rangeMeta,
+} from './constants';
+import { NumericRange, matchesRange } from './ranges';
+import type { Game } from './types';
+
+export type FacetSelections = {
+  [K in FacetKey]: string[];
+} & {
+  [K in RangeKey]: NumericRange | null;
+} & {
+  modes: Record<FacetKey, FacetMode>;
+};
+
+export type FacetCounts = Record<FacetKey, Record<string, number>>;
+
+// Facet values for a game, with single-valued fields wrapped in an array
+export const getFacetValues = (game: Game, key: FacetKey): string[] => {
+  const value = game[key];
+  if (Array.isArray(value)) return value;
+  return typeof value === 'string' && value ? [value] : [];
+};
+
+// On an ordered scale, a game fits when it needs no more than the largest
+// selected option; games without a value aren't ruled out
+const fitsScale = (values: string[], selected: string[], scale: readonly string[]) => {
+  if (values.length === 0) return true;
+  const largest = Math.max(...selected.map((option) => scale.indexOf(option)));
+  return values.every((value) => {
+    const position = scale.indexOf(value);
+    return position !== -1 && position <= largest;
+  });
+};
+
+// Applies a group's selected options according to its mode
+export const matchesFacet = (
+  game: Game,
+  key: FacetKey,
+  selected: string[],
+  mode: FacetMode = 'any'
+) => {
+  if (selected.length === 0) return true;
+  const values = getFacetValues(game, key);
+  const { scale } = filterMeta[key];
+  if (scale) return fitsScale(values, selected, scale);
+  switch (mode) {
+    case 'all':
+      return selected.every((option) => values.includes(option));
+    case 'exclude':
+      return !values.some((value) => selected.includes(value));
+    default:
+      return values.some((value) => selected.includes(value));
+  }
+};
+
+// Every group must match; `except` skips one group so its options can be
+// counted against the rest of the selection.
+export const matchesSelections = (
+  game: Game,
+  selections: FacetSelections,
+  except?: FilterGroupKey
+) =>
+  facetKeys.every(
+    (key) =>
+      key === except ||
+      matchesFacet(game, key, selections[key], selections.modes[key])
+  ) &&
+  rangeKeys.every(
+    (key) => key === except || matchesRange(game, key, selections[key])
+  );
+
+export const filterGames = (games: Game[], selections: FacetSelections) =>
+  games.filter((game) => matchesSelections(game, selections));
+
+// How many games each option would leave if it were selected alongside the
+// other active groups. In "any" mode an option is counted on its own; in
+// "all" and "exclude" modes it is added to the group's current selection.
+// Options that would leave nothing are omitted.
+export const countFacetOptions = (
+  games: Game[],
+  selections: FacetSelections,
+  options: Record<FacetKey, string[]>
+): FacetCounts =>
+  facetKeys.reduce((acc, key) => {
+    const mode = selections.modes[key];
+    const selected = selections[key];
+    const pool = games.filter((game) => matchesSelections(game, selections, key));
+    const counts: Record<string, number> = {};
+    options[key].forEach((option) => {
+      const candidate =
+        mode === 'any'
+          ? [option]
+          : selected.includes(option)
+            ? selected
+            : [...selected, option];
+      const count = pool.filter((game) =>
+        matchesFacet(game, key, candidate, mode)
+      ).length;
+      if (count > 0) counts[option] = count;
+    });
+    acc[key] = counts;
+    return acc;
+  }, {} as FacetCounts);
+
+// Matching games for each preset in `rangeMeta`, in preset order
+export const countRangePresets = (
+  games: Game[],
+  selections: FacetSelections
+): Record<RangeKey, number[]> =>
+  rangeKeys.reduce((acc, key) => {
+    const pool = games.filter((game) => matchesSelections(game, selections, key));
+    acc[key] = rangeMeta[key].presets.map(
+      ({ min, max }) =>
+        pool.filter((game) => matchesRange(game, key, { min, max })).length
+    );
+    return acc;
+  }, {} as Record<RangeKey, number[]>);
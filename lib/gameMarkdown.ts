@@ -0,0 +1,161 @@
+// lib/gameMarkdown.ts
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { orderGameKeys } from './authoring';
+
+type UnknownRecord = Record<string, unknown>;
+
+// Body sections and the field each one holds, in the order they are written
+export const gameMarkdownSections = [
+  { heading: 'Rules', field: 'generalRules' },
+  { heading: 'Variations', field: 'variations' },
+  { heading: 'History', field: 'historicalNotes' },
+] as const;
+
+const sectionFields = new Set<string>(gameMarkdownSections.map((section) => section.field));
+
+const LIST_ITEM = /^(\d+\.|[-*+])\s/;
+const FRONTMATTER = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const isListLine = (line: string) => LIST_ITEM.test(line.trim());
+
+// A blank line separates entries and an entry is never split inside, so one
+// holding its own list keeps it; each further blank line is an empty entry.
+// A block made only of one-line list items is a run of list entries.
+const markdownToEntries = (markdown: string) =>
+  markdown
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.trim())
+    .flatMap((block) => {
+      const lines = block.split('\n');
+      return lines.every(isListLine) ? lines.map((line) => line.trim()) : [block];
+    });
+
+// The inverse of `markdownToEntries`: one-line list entries that follow each
+// other stay in one list, and everything else is its own block
+const entriesToMarkdown = (entries: string[]) => {
+  const isListEntry = (entry: string) => !entry.includes('\n') && isListLine(entry);
+  return entries
+    .map((entry) => entry.trim())
+    .reduce(
+      (markdown, entry, index, all) =>
+        index === 0
+          ? entry
+          : `${markdown}${isListEntry(entry) && isListEntry(all[index - 1]) ? '\n' : '\n\n'}${entry}`,
+      ''
+    );
+};
+
+// Variations are written as a bullet list; the bullet itself isn't stored
+const markdownToVariations = (markdown: string) =>
+  markdownToEntries(markdown).map((entry) => entry.replace(/^[-*+]\s+/, ''));
+
+const splitFrontmatter = (contents: string) => {
+  const normalised = contents.replace(/\r\n?/g, '\n');
+  const match = normalised.match(FRONTMATTER);
+  if (!match) throw new Error('Expected YAML frontmatter between --- lines at the top of the file.');
+  const frontmatter = parseYaml(match[1]) ?? {};
+  if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+    throw new Error('Frontmatter must be a set of `key: value` fields.');
+  }
+  return { frontmatter: frontmatter as UnknownRecord, body: normalised.slice(match[0].length) };
+};
+
+const splitSections = (body: string) => {
+  const sections = new Map<string, string[]>();
+  let current: string[] | null = null;
+
+  body.split('\n').forEach((line) => {
+    const heading = line.match(/^##\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const section = gameMarkdownSections.find(
+        (candidate) => candidate.heading.toLowerCase() === heading[1].toLowerCase()
+      );
+      if (!section) {
+        throw new Error(
+          `Unknown section "## ${heading[1]}"; use ${gameMarkdownSections.map((candidate) => `## ${candidate.heading}`).join(', ')}.`
+        );
+      }
+      if (sections.has(section.field)) throw new Error(`"## ${section.heading}" appears twice.`);
+      current = [];
+      sections.set(section.field, current);
+    } else if (current) {
+      current.push(line);
+    } else if (line.trim() !== '') {
+      throw new Error(`Text before the first section: "${line.trim()}".`);
+    }
+  });
+
+  return new Map([...sections].map(([field, lines]) => [field, lines.join('\n').trim()]));
+};
+
+/**
+ * Reads a game written as YAML frontmatter plus `## Rules`, `## Variations`
+ * and `## History` sections into the same shape as a games.json record.
+ * Only fields the file sets are returned; the loader fills in the rest.
+ */
+export const parseGameMarkdown = (contents: string): UnknownRecord => {
+  const { frontmatter, body } = splitFrontmatter(contents);
+  // Empty section fields are kept in the frontmatter, as `formatGameMarkdown` writes them
+  const clashing = Object.keys(frontmatter).filter(
+    (key) => sectionFields.has(key) && !isEmpty(frontmatter[key])
+  );
+  if (clashing.length > 0) {
+    throw new Error(`${clashing.join(', ')} belong in their own section, not the frontmatter.`);
+  }
+
+  const sections = splitSections(body);
+  const rules = sections.get('generalRules');
+  const variations = sections.get('variations');
+  const history = sections.get('historicalNotes');
+  return orderGameKeys({
+    ...frontmatter,
+    ...(rules ? { generalRules: markdownToEntries(rules) } : {}),
+    ...(variations ? { variations: markdownToVariations(variations) } : {}),
+    ...(history ? { historicalNotes: history } : {}),
+  });
+};
+
+/**
+ * Writes a games.json record as Markdown, so that
+ * `parseGameMarkdown(formatGameMarkdown(record))` gives the record back.
+ * Every field the record has is written, empty ones included; empty section
+ * fields go in the frontmatter, since an empty section can't say whether the
+ * value was null, blank or an empty list.
+ */
+export const formatGameMarkdown = (record: UnknownRecord) => {
+  const frontmatter = Object.fromEntries(
+    Object.entries(orderGameKeys(record)).filter(
+      // Keys the schema doesn't know are kept as they are for later migration
+      ([key, value]) => key !== 'sourceText' && (!sectionFields.has(key) || isEmpty(value))
+    )
+  );
+
+  const rules = entriesToMarkdown(
+    Array.isArray(record.generalRules) ? record.generalRules.map(String) : []
+  );
+  const variations = Array.isArray(record.variations)
+    ? record.variations
+        .map((variation) => String(variation).trim())
+        .filter((variation) => variation !== '')
+        .map((variation) => `- ${variation}`)
+        .join('\n')
+    : '';
+  const history = typeof record.historicalNotes === 'string' ? record.historicalNotes.trim() : '';
+  const bodies: Record<string, string> = {
+    generalRules: rules,
+    variations,
+    historicalNotes: history,
+  };
+
+  const sections = gameMarkdownSections
+    .filter((section) => bodies[section.field] !== '')
+    .map((section) => `## ${section.heading}\n\n${bodies[section.field]}\n`);
+
+  return [`---\n${stringifyYaml(frontmatter, { lineWidth: 0 })}---\n`, ...sections].join('\n');
+};
@@ -0,0 +1,164 @@
+// lib/gameSources.ts
+import fs from 'fs';
+import path from 'path';
+import { formatGameRecord, formatGamesJson } from './authoring';
+import { formatGameMarkdown, parseGameMarkdown } from './gameMarkdown';
+import { trimStrings } from './normalise';
+import { slugify } from './utils';
+
+type UnknownRecord = Record<string, unknown>;
+
+// The published catalogue, and the optional one-file-per-game source layout
+// that `npm run compile:games` turns into it
+export const GAMES_FILE = path.join(process.cwd(), 'public', 'games.json');
+export const GAMES_SOURCE_DIR = path.join(process.cwd(), 'data', 'games');
+
+export interface GameSourceFormat {
+  parse: (contents: string) => unknown;
+  format: (record: UnknownRecord) => string;
+}
+
+// Keyed by file extension; files with any other extension are ignored
+export const gameSourceFormats: Record<string, GameSourceFormat> = {
+  '.json': {
+    parse: (contents) => JSON.parse(contents),
+    format: formatGameRecord,
+  },
+  // YAML frontmatter plus ## Rules, ## Variations and ## History sections
+  '.md': {
+    parse: parseGameMarkdown,
+    format: formatGameMarkdown,
+  },
+};
+
+export interface GameSource {
+  filePath: string;
+  record: unknown;
+}
+
+export const readGamesFile = (filePath: string): unknown[] => {
+  const fileContents = fs.readFileSync(filePath, 'utf8');
+  try {
+    return JSON.parse(fileContents) as unknown[];
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${path.basename(filePath)}: ${(err as Error).message}`);
+  }
+};
+
+const sourceFormatFor = (filePath: string) => gameSourceFormats[path.extname(filePath).toLowerCase()];
+
+// The id a source file is named for, e.g. `data/games/tag.json` → `tag`
+export const gameIdFromFile = (filePath: string) => path.basename(filePath, path.extname(filePath));
+
+export const listGameSourceFiles = (directory: string = GAMES_SOURCE_DIR) =>
+  fs.existsSync(directory)
+    ? fs
+        .readdirSync(directory)
+        .filter((fileName) => sourceFormatFor(fileName) !== undefined)
+        .sort()
+        .map((fileName) => path.join(directory, fileName))
+    : [];
+
+export const usesGameSourceDirectory = (directory: string = GAMES_SOURCE_DIR) =>
+  listGameSourceFiles(directory).length > 0;
+
+// Parses one source file. A record without an id takes it from the file name.
+export const readGameSourceFile = (filePath: string): unknown => {
+  const format = sourceFormatFor(filePath);
+  if (!format) throw new Error(`Unsupported game file: ${path.basename(filePath)}`);
+  let record: unknown;
+  try {
+    record = format.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    throw new Error(`Invalid game file ${path.basename(filePath)}: ${(err as Error).message}`);
+  }
+  if (record !== null && typeof record === 'object' && !Array.isArray(record)) {
+    const fields = record as UnknownRecord;
+    if (fields.id === undefined || fields.id === null || fields.id === '') {
+      return { ...fields, id: gameIdFromFile(filePath) };
+    }
+  }
+  return record;
+};
+
+const addedOrderOf = (record: unknown) => {
+  const order = (record as UnknownRecord | null)?.addedOrder;
+  return typeof order === 'number' ? order : Number.MAX_SAFE_INTEGER;
+};
+
+// In `addedOrder`, so the catalogue keeps its newest-last order; files
+// without one follow in name order
+export const readGameSources = (directory: string = GAMES_SOURCE_DIR): GameSource[] =>
+  listGameSourceFiles(directory)
+    .map((filePath) => ({ filePath, record: readGameSourceFile(filePath) }))
+    .sort((a, b) => addedOrderOf(a.record) - addedOrderOf(b.record));
+
+// The next `addedOrder` for a game added to the source directory
+export const nextAddedOrder = (records: unknown[]) =>
+  records.reduce<number>((highest, record) => {
+    const order = addedOrderOf(record);
+    return order === Number.MAX_SAFE_INTEGER ? highest : Math.max(highest, order);
+  }, records.length) + 1;
+
+/**
+ * The files `games split` writes for the records of games.json: one per id,
+ * each stamped with its position as `addedOrder` so compiling them back
+ * keeps "Recently added" newest first. Like the loader, the first record with
+ * an id wins; later ones are returned in `dropped` rather than written.
+ */
+export const splitGameRecords = (records: unknown[]) => {
+  const firstIndexById = new Map<string, number>();
+  const sources: { id: string; record: UnknownRecord }[] = [];
+  const dropped: { index: number; id: string; firstIndex: number }[] = [];
+  records.forEach((record, index) => {
+    const trimmed = trimStrings(record as UnknownRecord);
+    const id = typeof trimmed.id === 'string' ? trimmed.id : slugify(String(trimmed.name));
+    const firstIndex = firstIndexById.get(id);
+    if (firstIndex !== undefined) {
+      dropped.push({ index, id, firstIndex });
+      return;
+    }
+    firstIndexById.set(id, index);
+    sources.push({ id, record: { ...trimmed, id, addedOrder: index + 1 } });
+  });
+  return { sources, dropped };
+};
+
+export const formatGameSource = (filePath: string, record: UnknownRecord) => {
+  const format = sourceFormatFor(filePath);
+  if (!format) throw new Error(`Unsupported game file: ${path.basename(filePath)}`);
+  return format.format(record);
+};
+
+/**
+ * Raw records from whichever layout is in use: the source directory when it
+ * holds any game files, otherwise the published `games.json`.
+ */
+export const readGameRecords = (
+  directory: string = GAMES_SOURCE_DIR,
+  gamesFile: string = GAMES_FILE
+): unknown[] =>
+  usesGameSourceDirectory(directory)
+    ? readGameSources(directory).map((source) => source.record)
+    : readGamesFile(gamesFile);
+
+/**
+ * Builds the `games.json` contents from the source directory. Files are
+ * compiled in `addedOrder`, then name order; a file whose record declares a different id than
+ * its name is reported, because the CLI and reviewers rely on the name.
+ */
+export const compileGameSources = (directory: string = GAMES_SOURCE_DIR) => {
+  const sources = readGameSources(directory);
+  const problems = sources.flatMap(({ filePath, record }) => {
+    const id = (record as UnknownRecord | null)?.id;
+    const expected = gameIdFromFile(filePath);
+    return typeof id === 'string' && id.trim() !== expected
+      ? [`${path.basename(filePath)}: declares id "${id}"; rename the file to ${id}${path.extname(filePath)}`]
+      : [];
+  });
+  return {
+    contents: formatGamesJson(sources.map((source) => source.record)),
+    count: sources.length,
+    problems,
+  };
+};
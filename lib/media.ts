@@ -0,0 +1,70 @@
+// lib/media.ts
+import { BASE_PATH } from './constants';
+import type { Game, GameMedia, MediaKind } from './types';
+
+export const mediaKindLabels: Record<MediaKind, string> = {
+  setup: 'Setup',
+  playing: 'Playing',
+  diagram: 'Diagram',
+};
+
+// Local images live under public/ and are referenced from its root
+export const isLocalMedia = (url: string) => url.startsWith('/') && !url.startsWith('//');
+
+const isRemoteMedia = (url: string) => /^https?:\/\//i.test(url);
+
+// Static export doesn't add the base path to image sources, so local ones get it here
+export const mediaSrc = (url: string) =>
+  isLocalMedia(url) && !url.startsWith(`${BASE_PATH}/`) ? `${BASE_PATH}${url}` : url;
+
+// Cards show the first image, so authors choose it by ordering `media`
+export const pickThumbnail = (game: Pick<Game, 'media'>): GameMedia | null => game.media[0] ?? null;
+
+export interface MediaIssue {
+  severity: 'error' | 'warning';
+  // Field path within the record, e.g. `media.0.alt`
+  path: string;
+  message: string;
+}
+
+/**
+ * Problems with a record's images: local files that don't exist under
+ * public/, urls that are neither local nor http(s), and missing alt text.
+ * `fileExists` receives the local url, e.g. `/media/tag.jpg`.
+ */
+export const findMediaIssues = (
+  media: unknown,
+  fileExists: (url: string) => boolean
+): MediaIssue[] => {
+  if (!Array.isArray(media)) return [];
+  return media.flatMap((item, index): MediaIssue[] => {
+    if (item === null || typeof item !== 'object') return [];
+    const { url, alt } = item as Record<string, unknown>;
+    const issues: MediaIssue[] = [];
+    if (typeof url === 'string' && url !== '') {
+      if (isLocalMedia(url)) {
+        if (!fileExists(url)) {
+          issues.push({
+            severity: 'error',
+            path: `media.${index}.url`,
+            message: `No file at public${url}.`,
+          });
+        }
+      } else if (!isRemoteMedia(url)) {
+        issues.push({
+          severity: 'error',
+          path: `media.${index}.url`,
+          message: `“${url}” should be a path under public/ starting with / or an http(s) URL.`,
+        });
+      }
+    }
+    if (typeof alt !== 'string' || alt.trim() === '') {
+      issues.push({
+        severity: 'warning',
+        path: `media.${index}.alt`,
+        message: 'No alt text; describe the image for people using screen readers.',
+      });
+    }
+    return issues;
+  });
+};
@@ -0,0 +1,128 @@
+// lib/migrations.ts
+import { CURRENT_SCHEMA_VERSION, GameSchema } from './types';
+import { canonicalise } from './vocabulary';
+
+type UnknownRecord = Record<string, unknown>;
+
+const isUnset = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Starting values for `setting`, `minSpace` and `surfaces`, read from the
+ * tags and category that used to carry this information. Wide games and
+ * `wide-area` tags mean an outdoor field; `classroom-friendly` means it
+ * also works indoors in a room. Fields that are already set are kept.
+ */
+export const inferSetting = (record: UnknownRecord): UnknownRecord => {
+  const tags = Array.isArray(record.tags)
+    ? record.tags.map((tag) => String(tag).trim().toLowerCase())
+    : [];
+  const wide = tags.includes('wide-area') || canonicalise('category', record.category) === 'Wide';
+  const classroom = tags.includes('classroom-friendly') || tags.includes('classroom');
+  const outdoor = wide || tags.includes('night');
+
+  const setting = [...(classroom ? ['Indoor'] : []), ...(outdoor ? ['Outdoor'] : [])];
+  const minSpace = classroom ? 'Room' : wide ? 'Field' : null;
+  const surfaces = [...(classroom ? ['Indoor floor'] : []), ...(wide ? ['Grass'] : [])];
+
+  return {
+    ...record,
+    setting: isUnset(record.setting) ? setting : record.setting,
+    minSpace: isUnset(record.minSpace) ? minSpace : record.minSpace,
+    surfaces: isUnset(record.surfaces) ? surfaces : record.surfaces,
+  };
+};
+
+// Version assumed for records written before `schemaVersion` existed
+export const INITIAL_SCHEMA_VERSION = 1;
+
+export interface GameMigration {
+  // Upgrades a record at this version to the next one
+  from: number;
+  description: string;
+  migrate: (record: UnknownRecord) => UnknownRecord;
+}
+
+// One step per version, applied in order
+export const gameMigrations: GameMigration[] = [
+  {
+    from: 1,
+    description: 'Move setupImageUrl and playingImageUrl into media',
+    migrate: ({ setupImageUrl, playingImageUrl, ...record }) => {
+      const media = Array.isArray(record.media) ? [...record.media] : [];
+      const images = [
+        { url: setupImageUrl, kind: 'setup' },
+        { url: playingImageUrl, kind: 'playing' },
+      ];
+      images.forEach(({ url, kind }) => {
+        if (typeof url === 'string' && url.trim() !== '') {
+          media.push({ url: url.trim(), alt: '', caption: null, kind });
+        }
+      });
+      return { ...record, media };
+    },
+  },
+  {
+    from: 2,
+    description: 'Infer setting, minimum space and surfaces from tags and category',
+    migrate: inferSetting,
+  },
+];
+
+export interface MigrationResult {
+  record: UnknownRecord;
+  // Null when the record's `schemaVersion` isn't a usable version number
+  fromVersion: number | null;
+  // Steps that changed the record; a step with nothing to do isn't listed
+  applied: string[];
+}
+
+// Empty values are left out, so adding empty defaults or dropping empty
+// legacy fields doesn't count as a change
+const contentOf = (record: UnknownRecord) =>
+  JSON.stringify(
+    Object.entries(record)
+      .filter(([, value]) => !isUnset(value))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+export const readSchemaVersion = (record: UnknownRecord): number | null => {
+  const version = record.schemaVersion;
+  if (version === undefined || version === null) return INITIAL_SCHEMA_VERSION;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : null;
+};
+
+/**
+ * Upgrades a record step by step to `target`. Records with an unreadable or
+ * newer version are returned untouched so `GameSchema` can report them.
+ */
+export const migrateGameRecord = (
+  record: UnknownRecord,
+  migrations: GameMigration[] = gameMigrations,
+  target: number = CURRENT_SCHEMA_VERSION
+): MigrationResult => {
+  const fromVersion = readSchemaVersion(record);
+  if (fromVersion === null || fromVersion > target) {
+    return { record, fromVersion, applied: [] };
+  }
+
+  let current = record;
+  const applied: string[] = [];
+  for (let version = fromVersion; version < target; version += 1) {
+    const step = migrations.find((migration) => migration.from === version);
+    if (!step) throw new Error(`No migration from schema version ${version} to ${version + 1}.`);
+    const next = step.migrate(current);
+    if (contentOf(next) !== contentOf(current)) applied.push(step.description);
+    current = next;
+  }
+  return { record: { ...current, schemaVersion: target }, fromVersion, applied };
+};
+
+const knownGameKeys = new Set(Object.keys(GameSchema.shape));
+
+// Keys `GameSchema` doesn't declare; Zod strips these when parsing
+export const findUnknownKeys = (record: UnknownRecord) =>
+  Object.keys(record).filter((key) => !knownGameKeys.has(key));
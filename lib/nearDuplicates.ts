@@ -0,0 +1,236 @@
+// lib/nearDuplicates.ts
+import fs from 'fs';
+import type { Game } from './types';
+import { slugify } from './utils';
+
+export type NearDuplicateSignal = 'name' | 'description' | 'keywords';
+
+export interface NearDuplicatePair {
+  // Sorted, so a pair always has the same key whichever game came first
+  ids: [string, string];
+  names: [string, string];
+  // Weighted blend of the signals, 0–1
+  score: number;
+  signals: Record<NearDuplicateSignal, number>;
+  // Short human-readable evidence, strongest first
+  reasons: string[];
+}
+
+// A pair someone has checked and decided are different games
+export interface NotDuplicateEntry {
+  ids: [string, string];
+  note?: string;
+}
+
+export interface NearDuplicateResult {
+  pairs: NearDuplicatePair[];
+  ignoredCount: number;
+  // Ignore entries naming a game that no longer exists
+  staleIgnores: NotDuplicateEntry[];
+}
+
+// Committed with the data so a dismissed pair stays dismissed
+export const NOT_DUPLICATES_FILE = 'data/not-duplicates.json';
+
+// Below this a pair is mostly shared vocabulary
+export const MIN_NEAR_DUPLICATE_SCORE = 0.35;
+
+const weights: Record<NearDuplicateSignal, number> = {
+  name: 0.5,
+  description: 0.25,
+  keywords: 0.25,
+};
+
+// Words too common in game descriptions to say anything about the game
+const stopWords = new Set(
+  (
+    'the and for with are from that this their they them then than into onto when where while ' +
+    'who whom which what each other others one two all any can will may must not but its has ' +
+    'have had was were been being also more most some such only just until who’s game games ' +
+    'play player players playing played around about over under out off his her him she you your'
+  ).split(' ')
+);
+
+// Quotes and apostrophes vary between records ("Who’s" vs "Who's")
+const toKey = (value: string) => slugify(value.replace(/[’'‘`]/g, ''));
+
+// "Keep Away (Monkey in the Middle)" is known by both halves
+const nameVariants = (game: Game) =>
+  [game.name, ...game.regionalNames]
+    .flatMap((value) => {
+      const bracketed = /^(.*?)\s*\(([^)]+)\)\s*$/.exec(value);
+      return bracketed ? [value, bracketed[1], bracketed[2]] : [value];
+    })
+    .map(toKey)
+    .filter((key) => key.length > 0);
+
+const bigrams = (key: string) => {
+  const compact = key.replace(/-/g, '');
+  const pairs: string[] = [];
+  for (let index = 0; index < compact.length - 1; index += 1) pairs.push(compact.slice(index, index + 2));
+  return pairs;
+};
+
+// Sørensen–Dice over character pairs, so "Blindmans Buff" still matches "Blind Man’s Buff"
+const dice = (a: string, b: string) => {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  const counts = new Map<string, number>();
+  left.forEach((pair) => counts.set(pair, (counts.get(pair) ?? 0) + 1));
+  let shared = 0;
+  right.forEach((pair) => {
+    const count = counts.get(pair) ?? 0;
+    if (count > 0) {
+      shared += 1;
+      counts.set(pair, count - 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+};
+
+// Jaccard overlap, treating small sets as at least `minSize` so a two-word
+// description can't match another on a single shared word
+const overlap = (a: Set<string>, b: Set<string>, minSize: number) => {
+  const shared = [...a].filter((value) => b.has(value));
+  const union = new Set([...a, ...b]).size;
+  return { shared, score: union === 0 ? 0 : shared.length / Math.max(union, minSize) };
+};
+
+const MIN_DESCRIPTION_WORDS = 12;
+const MIN_KEYWORDS = 6;
+
+const descriptionWords = (description: string | null | undefined) =>
+  new Set(
+    (description ?? '')
+      .toLowerCase()
+      .replace(/[’']s\b/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2 && !stopWords.has(word))
+  );
+
+const keywordSet = (game: Game) =>
+  new Set(
+    game.keywords
+      .map((keyword) => keyword.trim().toLowerCase())
+      .filter((keyword) => keyword.length > 1 && !stopWords.has(keyword))
+  );
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+interface Profile {
+  game: Game;
+  names: string[];
+  words: Set<string>;
+  keywords: Set<string>;
+}
+
+const compareProfiles = (a: Profile, b: Profile): NearDuplicatePair => {
+  let name = 0;
+  let matchedNames: [string, string] = ['', ''];
+  a.names.forEach((left) =>
+    b.names.forEach((right) => {
+      const similarity = dice(left, right);
+      if (similarity > name) {
+        name = similarity;
+        matchedNames = [left, right];
+      }
+    })
+  );
+  const description = overlap(a.words, b.words, MIN_DESCRIPTION_WORDS);
+  const keywords = overlap(a.keywords, b.keywords, MIN_KEYWORDS);
+  const signals = {
+    name: round(name),
+    description: round(description.score),
+    keywords: round(keywords.score),
+  };
+
+  const reasons = [
+    {
+      weight: weights.name * signals.name,
+      text:
+        signals.name === 1
+          ? `Both known as “${matchedNames[0].replace(/-/g, ' ')}”`
+          : `Similar names (${Math.round(signals.name * 100)}%)`,
+    },
+    {
+      weight: weights.description * signals.description,
+      text: `Descriptions share ${description.shared.length} word${description.shared.length === 1 ? '' : 's'}`,
+    },
+    {
+      weight: weights.keywords * signals.keywords,
+      text: `Shared keywords: ${keywords.shared.slice(0, 5).join(', ')}`,
+    },
+  ]
+    .filter((reason) => reason.weight >= 0.05)
+    .sort((left, right) => right.weight - left.weight)
+    .map((reason) => reason.text);
+
+  const [first, second] = a.game.id < b.game.id ? [a.game, b.game] : [b.game, a.game];
+  return {
+    ids: [first.id, second.id],
+    names: [first.name, second.name],
+    score: round(
+      (Object.keys(weights) as NearDuplicateSignal[]).reduce(
+        (total, signal) => total + weights[signal] * signals[signal],
+        0
+      )
+    ),
+    signals,
+    reasons,
+  };
+};
+
+/**
+ * Scores every pair of games on name similarity (including regional names
+ * and bracketed alternatives), description wording and keyword overlap, and
+ * returns those at or above `minScore`, highest first. Pairs listed in
+ * `ignored` are left out.
+ */
+export const findNearDuplicates = (
+  games: Game[],
+  {
+    ignored = [],
+    minScore = MIN_NEAR_DUPLICATE_SCORE,
+  }: { ignored?: NotDuplicateEntry[]; minScore?: number } = {}
+): NearDuplicateResult => {
+  const ids = new Set(games.map((game) => game.id));
+  const ignoredKeys = new Set(ignored.map((entry) => pairKey(entry.ids[0], entry.ids[1])));
+  const profiles: Profile[] = games.map((game) => ({
+    game,
+    names: nameVariants(game),
+    words: descriptionWords(game.description),
+    keywords: keywordSet(game),
+  }));
+
+  const pairs: NearDuplicatePair[] = [];
+  let ignoredCount = 0;
+  profiles.forEach((left, index) =>
+    profiles.slice(index + 1).forEach((right) => {
+      if (left.game.id === right.game.id) return;
+      const pair = compareProfiles(left, right);
+      if (pair.score < minScore) return;
+      if (ignoredKeys.has(pairKey(pair.ids[0], pair.ids[1]))) {
+        ignoredCount += 1;
+      } else {
+        pairs.push(pair);
+      }
+    })
+  );
+
+  return {
+    pairs: pairs.sort(
+      (a, b) => b.score - a.score || a.ids[0].localeCompare(b.ids[0]) || a.ids[1].localeCompare(b.ids[1])
+    ),
+    ignoredCount,
+    staleIgnores: ignored.filter((entry) => !entry.ids.every((id) => ids.has(id))),
+  };
+};
+
+export const readNotDuplicates = (filePath: string = NOT_DUPLICATES_FILE): NotDuplicateEntry[] =>
+  fs.existsSync(filePath)
+    ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as NotDuplicateEntry[])
+    : [];
@@ -0,0 +1,225 @@
+// lib/normalise.ts
+import { findMediaIssues } from './media';
+import { findUnknownKeys, migrateGameRecord } from './migrations';
+import { Game, GameSchema } from './types';
+import {
+  canonicalise,
+  canonicaliseList,
+  isKnownTerm,
+  vocabularies,
+  type VocabularyField,
+} from './vocabulary';
+import { slugify } from './utils';
+
+// Utility to normalise potentially nullish string values
+export const normaliseNullishString = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return ['', 'null', 'null,'].includes(trimmed.toLowerCase()) ? null : trimmed;
+};
+
+// This function uses generics to provide type safety, avoiding `any`.
+export const trimStrings = <T>(obj: T): T => {
+  if (Array.isArray(obj)) {
+    // We can safely cast here as we are preserving the array structure.
+    return obj.map(trimStrings) as T;
+  }
+  if (obj !== null && typeof obj === 'object') {
+    // The initial value `{}` is cast to T, and we use Record<string, unknown>
+    // for safe property access within the reducer.
+    return Object.keys(obj).reduce((acc, key) => {
+      const value = (obj as Record<string, unknown>)[key];
+      (acc as Record<string, unknown>)[key] =
+        typeof value === 'string' ? value.trim() : trimStrings(value);
+      return acc;
+    }, {} as T);
+  }
+  return obj;
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+// Changes the loader makes on its own. None of them stop a record loading.
+export type NormalisationFixType =
+  | 'trim'
+  | 'migrate'
+  | 'derive-id'
+  | 'null-string'
+  | 'swap-range'
+  | 'canonicalise';
+
+export interface NormalisationFix {
+  type: NormalisationFixType;
+  // Dotted field path such as `surfaces.1`, or null for the whole record
+  path: string | null;
+  message: string;
+}
+
+export type NormalisationIssueType =
+  | 'not-object'
+  | 'missing-id'
+  | 'schema'
+  | 'vocabulary'
+  | 'unknown-field'
+  | 'media';
+
+export interface NormalisationIssue {
+  type: NormalisationIssueType;
+  path: string | null;
+  message: string;
+}
+
+export interface NormalisedRecord {
+  // Explicit or derived id; empty when there is nothing to derive it from
+  id: string;
+  // The record after every fix, ready for `GameSchema`
+  record: UnknownRecord;
+  // The parsed game, or null when `GameSchema` rejects the record
+  game: Game | null;
+  fixes: NormalisationFix[];
+  warnings: NormalisationIssue[];
+  errors: NormalisationIssue[];
+}
+
+const rangeFields = [
+  { min: 'ageMin', max: 'ageMax', label: 'Age' },
+  { min: 'playersMin', max: 'playersMax', label: 'Player' },
+  { min: 'durationMin', max: 'durationMax', label: 'Duration' },
+] as const;
+
+// Text fields where "", "null" and "null," all mean no value
+const textFields = ['name', 'description'] as const;
+
+// Vocabulary fields that hold a list of terms; the rest hold one term and
+// keep their authored text in `sourceText`
+const listVocabularyFields = new Set<VocabularyField>(['setting', 'surfaces']);
+const vocabularyFields = Object.keys(vocabularies) as VocabularyField[];
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The import pipeline for one raw record, shared by the loader, dataset
+ * validation and the diagnostics page. It trims strings, migrates the record
+ * to the current schema version, derives the id, clears "null" text, swaps
+ * inverted ranges and canonicalises vocabulary fields, then validates the
+ * result with `GameSchema`. Every change is listed in `fixes`; values it has
+ * to drop are `warnings`, and anything that keeps the record out of the
+ * catalogue or points at a missing file is an `error`. Duplicate ids and
+ * related games need the whole dataset and are checked by the callers.
+ */
+export const normaliseRecord = (
+  rawGame: unknown,
+  { fileExists = () => true }: { fileExists?: (url: string) => boolean } = {}
+): NormalisedRecord => {
+  const fixes: NormalisationFix[] = [];
+  const warnings: NormalisationIssue[] = [];
+  const errors: NormalisationIssue[] = [];
+  const fix = (type: NormalisationFixType, path: string | null, message: string) =>
+    fixes.push({ type, path, message });
+
+  const raw = isRecord(rawGame) ? rawGame : {};
+  const trimmed = trimStrings(raw);
+  Object.keys(raw).forEach((key) => {
+    if (!sameValue(raw[key], trimmed[key])) fix('trim', key, 'Trimmed surrounding whitespace.');
+  });
+
+  const { record: migrated, applied } = migrateGameRecord(trimmed);
+  applied.forEach((description) => fix('migrate', null, description));
+  const record: UnknownRecord = { ...migrated };
+
+  textFields.forEach((field) => {
+    const value = migrated[field];
+    const text = normaliseNullishString(value);
+    if (typeof value === 'string' && value !== '' && text === null) {
+      fix('null-string', field, `“${value}” treated as no value.`);
+    }
+    // A missing name is left empty for the schema to report
+    record[field] = field === 'name' ? text || '' : text;
+  });
+
+  const name = typeof record.name === 'string' && record.name ? record.name : null;
+  const explicitId = typeof migrated.id === 'string' && migrated.id ? migrated.id : null;
+  const id = explicitId ?? (name ? slugify(name) : '');
+  record.id = id;
+  if (!explicitId && id) fix('derive-id', 'id', `No id; derived “${id}” from the name.`);
+  if (!id) errors.push({ type: 'missing-id', path: 'id', message: 'No id, and no name to derive one from.' });
+
+  rangeFields.forEach(({ min, max, label }) => {
+    // Non-numeric bounds are left out rather than failing the record
+    let low = typeof migrated[min] === 'number' ? (migrated[min] as number) : undefined;
+    let high = typeof migrated[max] === 'number' ? (migrated[max] as number) : undefined;
+    if (low !== undefined && high !== undefined && low > high) {
+      fix('swap-range', min, `${label} range inverted (${low}–${high}); values swapped.`);
+      [low, high] = [high, low];
+    }
+    record[min] = low;
+    record[max] = high;
+  });
+
+  const sourceText: Record<string, string | null> = {};
+  vocabularyFields.forEach((field) => {
+    const value = migrated[field];
+    const isList = listVocabularyFields.has(field);
+    const terms = Array.isArray(value) ? value : [value];
+    terms.forEach((term, position) => {
+      const text = normaliseNullishString(term);
+      if (!text) return;
+      const path = Array.isArray(value) ? `${field}.${position}` : field;
+      const canonical = canonicalise(field, text);
+      if (!isKnownTerm(field, text)) {
+        warnings.push({ type: 'vocabulary', path, message: `Unrecognised value “${text}” will be dropped.` });
+      } else if (canonical !== text) {
+        fix('canonicalise', path, canonical ? `“${text}” → “${canonical}”.` : `“${text}” treated as no value.`);
+      }
+    });
+
+    if (isList) {
+      record[field] = canonicaliseList(field, value);
+    } else {
+      const text = typeof value === 'string' ? value : null;
+      record[field] = canonicalise(field, text);
+      sourceText[field] = normaliseNullishString(text);
+    }
+  });
+  record.sourceText = sourceText;
+
+  findUnknownKeys(migrated).forEach((key) => {
+    warnings.push({
+      type: 'unknown-field',
+      path: key,
+      message: 'Unknown field will be dropped; add it to GameSchema or a migration.',
+    });
+  });
+
+  findMediaIssues(record.media, fileExists).forEach(({ severity, path, message }) => {
+    (severity === 'error' ? errors : warnings).push({ type: 'media', path, message });
+  });
+
+  const validation = GameSchema.safeParse(record);
+  if (!validation.success) {
+    validation.error.issues.forEach((issue) => {
+      // A missing id is already reported above in plainer words
+      if (!id && issue.path[0] === 'id') return;
+      errors.push({ type: 'schema', path: issue.path.join('.') || null, message: issue.message });
+    });
+  }
+
+  if (!isRecord(rawGame)) {
+    return {
+      id,
+      record,
+      game: null,
+      fixes: [],
+      warnings: [],
+      errors: [{ type: 'not-object', path: null, message: 'Entry is not an object.' }],
+    };
+  }
+
+  return { id, record, game: validation.success ? validation.data : null, fixes, warnings, errors };
+};
+
+// The normalised record on its own, for callers that validate it themselves
+export const normaliseRawGame = (rawGame: unknown): UnknownRecord => normaliseRecord(rawGame).record;
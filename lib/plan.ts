@@ -0,0 +1,129 @@
+// lib/plan.ts
+import type { Game } from './types';
+
+export type PlanSlot = {
+  // Slot ids keep React keys stable when the same game is added twice
+  id: string;
+  gameId: string;
+  minutes: number;
+};
+
+export type SessionPlan = {
+  title: string;
+  slots: PlanSlot[];
+};
+
+export const DEFAULT_SLOT_MINUTES = 10;
+
+export const createEmptyPlan = (): SessionPlan => ({ title: '', slots: [] });
+
+export type EquipmentItem = {
+  item: string;
+  games: string[];
+};
+
+export type RangeIntersection = {
+  min: number | null;
+  max: number | null;
+  // Set when no single value satisfies every slot
+  conflict: { lowest: string; highest: string } | null;
+};
+
+export type PlanSummary = {
+  totalMinutes: number;
+  equipment: EquipmentItem[];
+  age: RangeIntersection;
+  players: RangeIntersection;
+  missingGameIds: string[];
+};
+
+// Free-text equipment values that mean "nothing needed"
+const noEquipment = new Set(['none', 'nothing', 'no equipment', 'n/a']);
+
+// Splits a free-text equipment field into individual items
+export const splitEquipment = (equipment: string | null | undefined): string[] => {
+  const text = equipment?.trim();
+  if (!text || noEquipment.has(text.toLowerCase())) return [];
+  return text
+    .split(/[,;\n]+/)
+    .map((item) => item.trim().replace(/\.$/, ''))
+    .filter((item) => item.length > 0 && !noEquipment.has(item.toLowerCase()));
+};
+
+const intersectRanges = (
+  games: Game[],
+  minKey: 'ageMin' | 'playersMin',
+  maxKey: 'ageMax' | 'playersMax'
+): RangeIntersection => {
+  let min: number | null = null;
+  let max: number | null = null;
+  let minSource: Game | null = null;
+  let maxSource: Game | null = null;
+
+  for (const game of games) {
+    const gameMin = game[minKey];
+    const gameMax = game[maxKey];
+    if (gameMin != null && (min === null || gameMin > min)) {
+      min = gameMin;
+      minSource = game;
+    }
+    if (gameMax != null && (max === null || gameMax < max)) {
+      max = gameMax;
+      maxSource = game;
+    }
+  }
+
+  const conflict =
+    min !== null && max !== null && min > max && minSource && maxSource
+      ? { lowest: maxSource.name, highest: minSource.name }
+      : null;
+
+  return { min, max, conflict };
+};
+
+/**
+ * Totals a plan: time across every slot, equipment merged across games, and
+ * the age and player ranges that suit every game at once.
+ */
+export const summarisePlan = (plan: SessionPlan, games: Game[]): PlanSummary => {
+  const byId = new Map(games.map((game) => [game.id, game]));
+  const missingGameIds: string[] = [];
+  const planned: Game[] = [];
+
+  plan.slots.forEach((slot) => {
+    const game = byId.get(slot.gameId);
+    if (game) {
+      planned.push(game);
+    } else {
+      missingGameIds.push(slot.gameId);
+    }
+  });
+
+  const equipment = new Map<string, EquipmentItem>();
+  planned.forEach((game) => {
+    splitEquipment(game.equipment).forEach((item) => {
+      const key = item.toLowerCase();
+      const existing = equipment.get(key);
+      if (!existing) {
+        equipment.set(key, { item, games: [game.name] });
+      } else if (!existing.games.includes(game.name)) {
+        existing.games.push(game.name);
+      }
+    });
+  });
+
+  return {
+    totalMinutes: plan.slots.reduce((total, slot) => total + slot.minutes, 0),
+    equipment: Array.from(equipment.values()),
+    age: intersectRanges(planned, 'ageMin', 'ageMax'),
+    players: intersectRanges(planned, 'playersMin', 'playersMax'),
+    missingGameIds,
+  };
+};
+
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
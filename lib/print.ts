@@ -0,0 +1,119 @@
+// lib/print.ts
+import { BASE_PATH } from './constants';
+
+// Pocket cards per A4 sheet: two A5 halves or four A6 quarters
+export const printLayouts = [2, 4] as const;
+export type PrintLayout = (typeof printLayouts)[number];
+export const DEFAULT_PRINT_LAYOUT: PrintLayout = 4;
+
+export const parsePrintLayout = (value: string | null): PrintLayout =>
+  printLayouts.find((layout) => String(layout) === value) ?? DEFAULT_PRINT_LAYOUT;
+
+// Link to the batch print view, e.g. `/print?games=tag,sardines`
+export const buildPrintHref = (gameIds: string[], layout?: PrintLayout) => {
+  const params = new URLSearchParams({ games: gameIds.join(',') });
+  if (layout && layout !== DEFAULT_PRINT_LAYOUT) params.set('per', String(layout));
+  return `/print?${params.toString()}`;
+};
+
+export const parsePrintGameIds = (value: string | null) =>
+  Array.from(
+    new Set(
+      (value ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id.length > 0)
+    )
+  );
+
+// Splits cards into sheets of `size`
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const sheets: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    sheets.push(items.slice(index, index + size));
+  }
+  return sheets;
+};
+
+// Joins rule entries into one Markdown string, keeping consecutive list
+// items in the same list and separating everything else into paragraphs.
+export const formatRulesMarkdown = (rules: string[]): string | null => {
+  const cleanedRules = rules.map((rule) => rule.trim()).filter((rule) => rule.length > 0);
+  if (cleanedRules.length === 0) return null;
+
+  const isListItem = (rule: string) => /^(\d+\.|[-*+])\s/.test(rule);
+  return cleanedRules.reduce((acc, rule, index) => {
+    if (index === 0) return rule;
+    const separator =
+      isListItem(rule) && isListItem(cleanedRules[index - 1]) ? '\n' : '\n\n';
+    return `${acc}${separator}${rule}`;
+  }, '');
+};
+
+// Where build-time PDFs are written under public/, and their public URL
+export const PDF_DIRECTORY = 'pdfs';
+export const gamePdfHref = (gameId: string) =>
+  `${BASE_PATH}/${PDF_DIRECTORY}/${gameId}.pdf`;
+
+export type TextBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] };
+
+// Drops inline Markdown (emphasis, code, links) for plain-text output
+export const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+
+/**
+ * Splits the rules Markdown into headings, paragraphs and lists for
+ * renderers that can't use react-markdown, such as the PDF export.
+ */
+export const markdownToBlocks = (markdown: string): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', text: stripInlineMarkdown(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  markdown.split('\n').forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) {
+      flushParagraph();
+      return;
+    }
+
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', text: stripInlineMarkdown(heading[1]) });
+      return;
+    }
+
+    const item = /^(\d+\.|[-*+])\s+(.*)$/.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = /^\d/.test(item[1]);
+      const previous = blocks[blocks.length - 1];
+      const text = stripInlineMarkdown(item[2]);
+      if (previous?.kind === 'list' && previous.ordered === ordered) {
+        previous.items.push(text);
+      } else {
+        blocks.push({ kind: 'list', ordered, items: [text] });
+      }
+      return;
+    }
+
+    paragraph.push(line);
+  });
+
+  flushParagraph();
+  return blocks;
+};
@@ -0,0 +1,459 @@
+// lib/qualityReport.ts
+import { BASE_PATH } from './constants';
+import {
+  lintDataset,
+  summariseLintFindings,
+  type LintFinding,
+  type LintRuleSummary,
+} from './contentLint';
+import { findNearDuplicates, type NearDuplicateResult, type NotDuplicateEntry } from './nearDuplicates';
+import { normaliseRecord, type NormalisationFixType } from './normalise';
+import { resolveRelatedGames, type UnresolvedReference } from './related';
+import type { Game } from './types';
+
+type UnknownRecord = Record<string, unknown>;
+
+export interface AnalysedGame {
+  index: number;
+  derivedId: string;
+  explicitId: string | null;
+  rawName: string | null;
+  normalisedName: string;
+  issues: string[];
+  warnings: string[];
+  validationIssues: string[];
+  // Keys left after migration that GameSchema strips
+  unknownKeys: string[];
+  // Migration steps applied when loading, oldest first
+  migrations: string[];
+  included: boolean;
+  duplicateCount?: number;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  count: number;
+  names: string[];
+  indices: number[];
+}
+
+export interface CoverageMetric {
+  label: string;
+  present: number;
+  total: number;
+}
+
+export interface AppliedFix {
+  type: NormalisationFixType;
+  label: string;
+  count: number;
+}
+
+// In the order they are applied by `normaliseRecord`
+export const fixLabels: Record<NormalisationFixType, string> = {
+  trim: 'Whitespace trimmed',
+  migrate: 'Schema migration steps applied',
+  'null-string': 'Empty or “null” text cleared',
+  'derive-id': 'Ids derived from names',
+  'swap-range': 'Inverted ranges swapped',
+  canonicalise: 'Vocabulary terms canonicalised',
+};
+
+export interface QualityReport {
+  totalRecords: number;
+  includedCount: number;
+  excludedCount: number;
+  flaggedRecords: AnalysedGame[];
+  duplicateGroups: DuplicateGroup[];
+  // Published games that may be the same game under another name
+  nearDuplicates: NearDuplicateResult;
+  coverageMetrics: CoverageMetric[];
+  coverageGaps: CoverageMetric[];
+  unresolvedRelated: UnresolvedReference[];
+  recordsWithUnknownKeys: AnalysedGame[];
+  migratedCount: number;
+  appliedFixes: AppliedFix[];
+  // Content problems the schema allows, from the rules in `lib/contentLint.ts`
+  contentLint: { findings: LintFinding[]; rules: LintRuleSummary[] };
+}
+
+const hasContent = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+export const percentage = (present: number, total: number) =>
+  total === 0 ? 0 : Math.round((present / total) * 1000) / 10;
+
+/**
+ * Runs every raw record through `normaliseRecord` and summarises the result
+ * for the diagnostics page, `npm run quality` and the exported artefacts.
+ * Coverage and near duplicates are measured over the games that would be
+ * published; pairs in `notDuplicates` have been checked and are left out.
+ */
+export const buildQualityReport = (
+  rawRecords: unknown[],
+  {
+    fileExists = () => true,
+    notDuplicates = [],
+  }: { fileExists?: (url: string) => boolean; notDuplicates?: NotDuplicateEntry[] } = {}
+): QualityReport => {
+  const analysed: AnalysedGame[] = [];
+  const published: Game[] = [];
+  const seenIds = new Set<string>();
+  const firstOccurrence = new Map<string, number>();
+  const fixCounts = new Map<NormalisationFixType, number>();
+
+  rawRecords.forEach((rawGame, index) => {
+    const { id, record, game, fixes, warnings, errors } = normaliseRecord(rawGame, {
+      fileExists,
+    });
+    const describe = ({ path, message }: { path: string | null; message: string }) =>
+      path ? `${path}: ${message}` : message;
+    const rawFields = (rawGame && typeof rawGame === 'object' ? rawGame : {}) as UnknownRecord;
+    const rawName = typeof rawFields.name === 'string' ? rawFields.name : null;
+
+    fixes.forEach((fix) => fixCounts.set(fix.type, (fixCounts.get(fix.type) ?? 0) + 1));
+
+    const entry: AnalysedGame = {
+      index,
+      derivedId: id,
+      explicitId: id && !fixes.some((fix) => fix.type === 'derive-id') ? id : null,
+      rawName,
+      normalisedName: typeof record.name === 'string' ? record.name : '',
+      issues: errors.filter((error) => error.type !== 'schema').map(describe),
+      // Swapped ranges load fine but point at a mistake in the source
+      warnings: [
+        ...fixes.filter((fix) => fix.type === 'swap-range').map(describe),
+        ...warnings.filter((warning) => warning.type !== 'unknown-field').map(describe),
+      ],
+      validationIssues: errors.filter((error) => error.type === 'schema').map(describe),
+      unknownKeys: warnings
+        .filter((warning) => warning.type === 'unknown-field')
+        .map((warning) => warning.path ?? ''),
+      migrations: fixes.filter((fix) => fix.type === 'migrate').map((fix) => fix.message),
+      included: game !== null,
+    };
+
+    if (id) {
+      if (!seenIds.has(id)) {
+        seenIds.add(id);
+        firstOccurrence.set(id, index);
+      } else {
+        const firstIndex = firstOccurrence.get(id);
+        entry.issues.push(
+          firstIndex !== undefined
+            ? `Duplicate id; first seen at entry #${firstIndex + 1}.`
+            : 'Duplicate id encountered.'
+        );
+        entry.included = false;
+      }
+    } else {
+      entry.included = false;
+    }
+
+    if (game && entry.included) published.push(game);
+    analysed.push(entry);
+  });
+
+  const idBuckets = new Map<string, AnalysedGame[]>();
+  analysed.forEach((record) => {
+    if (!record.derivedId) return;
+    const bucket = idBuckets.get(record.derivedId);
+    if (bucket) {
+      bucket.push(record);
+    } else {
+      idBuckets.set(record.derivedId, [record]);
+    }
+  });
+
+  const duplicateGroups: DuplicateGroup[] = [];
+  idBuckets.forEach((records, id) => {
+    if (records.length > 1) {
+      const first = records[0];
+      if (first) {
+        first.warnings.push(
+          `ID shared with ${records.length - 1} other record${records.length - 1 === 1 ? '' : 's'}.`
+        );
+      }
+      records.forEach((record) => {
+        record.duplicateCount = records.length;
+      });
+      duplicateGroups.push({
+        id,
+        count: records.length,
+        names: records.map((record) => record.normalisedName || record.rawName || '(unnamed)'),
+        indices: records.map((record) => record.index + 1),
+      });
+    }
+  });
+
+  duplicateGroups.sort((a, b) => {
+    if (b.count === a.count) {
+      return Math.min(...a.indices) - Math.min(...b.indices);
+    }
+    return b.count - a.count;
+  });
+
+  const flaggedRecords = analysed
+    .filter(
+      (record) =>
+        record.issues.length > 0 ||
+        record.warnings.length > 0 ||
+        record.validationIssues.length > 0
+    )
+    .sort((a, b) => {
+      if (a.included === b.included) {
+        return a.index - b.index;
+      }
+      return a.included ? 1 : -1;
+    });
+
+  const includedCount = analysed.filter((record) => record.included).length;
+  const lintFindings = lintDataset(rawRecords);
+  const totalRecords = rawRecords.length;
+
+  const coverageMetrics = createCoverageMetrics(published);
+  const coverageGaps = coverageMetrics
+    .filter((metric) => metric.total > 0 && metric.present < metric.total)
+    .sort((a, b) => a.present / a.total - b.present / b.total)
+    .slice(0, 3);
+
+  return {
+    totalRecords,
+    includedCount,
+    excludedCount: totalRecords - includedCount,
+    flaggedRecords,
+    duplicateGroups,
+    nearDuplicates: findNearDuplicates(published, { ignored: notDuplicates }),
+    coverageMetrics,
+    coverageGaps,
+    unresolvedRelated: resolveRelatedGames(published).unresolved,
+    recordsWithUnknownKeys: analysed.filter((record) => record.unknownKeys.length > 0),
+    migratedCount: analysed.filter((record) => record.migrations.length > 0).length,
+    appliedFixes: (Object.keys(fixLabels) as NormalisationFixType[])
+      .map((type) => ({ type, label: fixLabels[type], count: fixCounts.get(type) ?? 0 }))
+      .filter((fix) => fix.count > 0),
+    contentLint: { findings: lintFindings, rules: summariseLintFindings(lintFindings) },
+  };
+};
+
+export const createCoverageMetrics = (dataset: Game[]): CoverageMetric[] => {
+  const total = dataset.length;
+  const metrics: CoverageMetric[] = [
+    {
+      label: 'Descriptions',
+      present: dataset.filter((game) => hasContent(game.description)).length,
+      total,
+    },
+    {
+      label: 'Equipment details',
+      present: dataset.filter((game) => hasContent(game.equipment)).length,
+      total,
+    },
+    {
+      label: 'Recommended player notes',
+      present: dataset.filter((game) => hasContent(game.recommendedPlayersText)).length,
+      total,
+    },
+    {
+      label: 'Age guidance provided',
+      present: dataset.filter((game) => game.ageMin != null || game.ageMax != null).length,
+      total,
+    },
+    {
+      label: 'Player counts provided',
+      present: dataset.filter((game) => game.playersMin != null || game.playersMax != null).length,
+      total,
+    },
+    {
+      label: 'Duration provided',
+      present: dataset.filter((game) => game.durationMin != null || game.durationMax != null).length,
+      total,
+    },
+    {
+      label: 'Energy level set',
+      present: dataset.filter((game) => game.energyLevel != null).length,
+      total,
+    },
+    {
+      label: 'Setting recorded',
+      present: dataset.filter((game) => game.setting.length > 0 || game.minSpace != null).length,
+      total,
+    },
+    {
+      label: 'General rules listed',
+      present: dataset.filter((game) => game.generalRules.length > 0).length,
+      total,
+    },
+    {
+      label: 'Variations captured',
+      present: dataset.filter((game) => game.variations.length > 0).length,
+      total,
+    },
+    {
+      label: 'Skills developed noted',
+      present: dataset.filter((game) => game.skillsDeveloped.length > 0).length,
+      total,
+    },
+    {
+      label: 'Regional popularity noted',
+      present: dataset.filter((game) => game.regionalPopularity.length > 0).length,
+      total,
+    },
+    {
+      label: 'Historical notes present',
+      present: dataset.filter((game) => hasContent(game.historicalNotes)).length,
+      total,
+    },
+    {
+      label: 'External links added',
+      present: dataset.filter((game) => game.links.length > 0).length,
+      total,
+    },
+    {
+      label: 'Keyword tags applied',
+      present: dataset.filter((game) => game.keywords.length > 0).length,
+      total,
+    },
+    {
+      label: 'Pictures added',
+      present: dataset.filter((game) => game.media.length > 0).length,
+      total,
+    },
+  ];
+
+  return metrics;
+};
+
+// Written under public/ by `npm run export:quality`, beside the /data/quality page
+export const QUALITY_EXPORT_DIRECTORY = 'data';
+export const QUALITY_REPORT_FILE = 'quality-report.json';
+export const FLAGGED_RECORDS_FILE = 'flagged-records.csv';
+export const qualityExportHref = (fileName: string) =>
+  `${BASE_PATH}/${QUALITY_EXPORT_DIRECTORY}/${fileName}`;
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const FLAGGED_RECORDS_CSV_COLUMNS = ['entry', 'id', 'name', 'status', 'kind', 'note'];
+
+/**
+ * The flagged records as CSV, one row per note, so a spreadsheet can sort and
+ * filter them by record or by kind of problem.
+ */
+export const formatFlaggedRecordsCsv = (report: QualityReport) => {
+  const rows = report.flaggedRecords.flatMap((record) => {
+    const notes = [
+      ...record.validationIssues.map((note) => ['validation', note]),
+      ...record.issues.map((note) => ['issue', note]),
+      ...record.warnings.map((note) => ['warning', note]),
+    ];
+    return notes.map(([kind, note]) => [
+      record.index + 1,
+      record.derivedId,
+      record.normalisedName || record.rawName || '',
+      record.included ? 'included' : 'excluded',
+      kind,
+      note,
+    ]);
+  });
+  return `${[FLAGGED_RECORDS_CSV_COLUMNS, ...rows]
+    .map((row) => row.map(csvCell).join(','))
+    .join('\n')}\n`;
+};
+
+// Upper limits on report counts and lower limits on coverage; leave a limit
+// out to skip that check. The committed limits are a ratchet: they sit at
+// today's counts, so CI fails on any regression, and whoever clears a
+// finding lowers the limit to match.
+export interface QualityThresholds {
+  maxExcludedRecords?: number;
+  maxFlaggedRecords?: number;
+  maxDuplicateGroups?: number;
+  maxNearDuplicates?: number;
+  maxUnresolvedRelated?: number;
+  maxRecordsWithUnknownFields?: number;
+  maxLintErrors?: number;
+  maxLintWarnings?: number;
+  // Minimum percentage per coverage metric, keyed by its label
+  minCoverage?: Record<string, number>;
+}
+
+export interface ThresholdBreach {
+  threshold: string;
+  actual: number;
+  limit: number;
+  message: string;
+}
+
+export const QUALITY_THRESHOLDS_FILE = 'data/quality-thresholds.json';
+
+/**
+ * Compares the report with the configured limits. Coverage limits that name
+ * a metric the report doesn't have are reported too, so a renamed metric
+ * can't silently stop being checked.
+ */
+export const checkQualityThresholds = (
+  report: QualityReport,
+  thresholds: QualityThresholds
+): ThresholdBreach[] => {
+  const breaches: ThresholdBreach[] = [];
+  const counts = [
+    { threshold: 'maxExcludedRecords', actual: report.excludedCount, label: 'excluded records' },
+    { threshold: 'maxFlaggedRecords', actual: report.flaggedRecords.length, label: 'flagged records' },
+    { threshold: 'maxDuplicateGroups', actual: report.duplicateGroups.length, label: 'duplicate id groups' },
+    {
+      threshold: 'maxNearDuplicates',
+      actual: report.nearDuplicates.pairs.length,
+      label: 'possible duplicate pairs',
+    },
+    { threshold: 'maxUnresolvedRelated', actual: report.unresolvedRelated.length, label: 'unresolved related games' },
+    {
+      threshold: 'maxRecordsWithUnknownFields',
+      actual: report.recordsWithUnknownKeys.length,
+      label: 'records with unknown fields',
+    },
+    {
+      threshold: 'maxLintErrors',
+      actual: report.contentLint.findings.filter((finding) => finding.severity === 'error').length,
+      label: 'content lint errors',
+    },
+    {
+      threshold: 'maxLintWarnings',
+      actual: report.contentLint.findings.filter((finding) => finding.severity === 'warning').length,
+      label: 'content lint warnings',
+    },
+  ] as const;
+
+  counts.forEach(({ threshold, actual, label }) => {
+    const limit = thresholds[threshold];
+    if (typeof limit === 'number' && actual > limit) {
+      breaches.push({ threshold, actual, limit, message: `${actual} ${label}; the limit is ${limit}.` });
+    }
+  });
+
+  Object.entries(thresholds.minCoverage ?? {}).forEach(([label, limit]) => {
+    const metric = report.coverageMetrics.find((candidate) => candidate.label === label);
+    if (!metric) {
+      breaches.push({
+        threshold: `minCoverage.${label}`,
+        actual: 0,
+        limit,
+        message: `No coverage metric called “${label}”.`,
+      });
+      return;
+    }
+    const actual = percentage(metric.present, metric.total);
+    if (actual < limit) {
+      breaches.push({
+        threshold: `minCoverage.${label}`,
+        actual,
+        limit,
+        message: `${label} at ${actual}%; the minimum is ${limit}%.`,
+      });
+    }
+  });
+
+  return breaches;
+};
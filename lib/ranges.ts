@@ -0,0 +1,70 @@
+// lib/ranges.ts
+import type { RangeKey } from './constants';
+import type { Game } from './types';
+
+// A selected range; a null bound is open-ended on that side.
+export type NumericRange = { min: number | null; max: number | null };
+
+export const gameRangeFields: Record<
+  RangeKey,
+  {
+    min: 'ageMin' | 'playersMin' | 'durationMin';
+    max: 'ageMax' | 'playersMax' | 'durationMax';
+  }
+> = {
+  age: { min: 'ageMin', max: 'ageMax' },
+  players: { min: 'playersMin', max: 'playersMax' },
+  duration: { min: 'durationMin', max: 'durationMax' },
+};
+
+// Parses the URL form of a range: "6-8", "7-" (7 and above) or "-10".
+export const parseRangeParam = (value: string | null): NumericRange | null => {
+  if (!value) return null;
+  const match = /^(\d*)-(\d*)$/.exec(value.trim());
+  if (!match) {
+    const exact = Number.parseInt(value, 10);
+    return Number.isNaN(exact) ? null : { min: exact, max: exact };
+  }
+  const min = match[1] ? Number.parseInt(match[1], 10) : null;
+  const max = match[2] ? Number.parseInt(match[2], 10) : null;
+  if (min === null && max === null) return null;
+  if (min !== null && max !== null && min > max) return { min: max, max: min };
+  return { min, max };
+};
+
+export const formatRangeParam = ({ min, max }: NumericRange) =>
+  `${min ?? ''}-${max ?? ''}`;
+
+export const rangesEqual = (a: NumericRange | null, b: NumericRange | null) =>
+  a === b || (a !== null && b !== null && a.min === b.min && a.max === b.max);
+
+export const formatRangeLabel = ({ min, max }: NumericRange, unit: string) => {
+  if (min !== null && max !== null) {
+    return min === max ? `${min} ${unit}` : `${min}–${max} ${unit}`;
+  }
+  if (min !== null) return `${min}+ ${unit}`;
+  if (max !== null) return `Up to ${max} ${unit}`;
+  return `Any ${unit}`;
+};
+
+// A game matches when its range overlaps the selected one. A missing game
+// bound is open-ended, so games without any data are never ruled out.
+export const matchesRange = (
+  game: Game,
+  key: RangeKey,
+  range: NumericRange | null
+) => {
+  if (!range) return true;
+  const fields = gameRangeFields[key];
+  const gameMin = game[fields.min] ?? -Infinity;
+  const gameMax = game[fields.max] ?? Infinity;
+  const selectedMin = range.min ?? -Infinity;
+  const selectedMax = range.max ?? Infinity;
+  return gameMin <= selectedMax && gameMax >= selectedMin;
+};
+
+// Whether any game has a bound for this range; groups without data are hidden.
+export const hasRangeData = (games: Game[], key: RangeKey) => {
+  const fields = gameRangeFields[key];
+  return games.some((game) => game[fields.min] != null || game[fields.max] != null);
+};
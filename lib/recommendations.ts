@@ -0,0 +1,126 @@
+// lib/recommendations.ts
+import type { RangeKey } from './constants';
+import { gameRangeFields } from './ranges';
+import type { Game } from './types';
+import { prettifyFilterValue } from './utils';
+import { prepLevels } from './vocabulary';
+
+export interface Recommendation {
+  gameId: string;
+  score: number;
+  // Short human-readable reasons, strongest first
+  reasons: string[];
+}
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 4;
+// Below this a suggestion is mostly coincidence
+export const MIN_RECOMMENDATION_SCORE = 1.5;
+
+const weights = {
+  tags: 3,
+  skills: 2,
+  category: 1.5,
+  age: 1,
+  players: 1,
+  prep: 0.5,
+};
+
+const jaccard = (a: string[], b: string[]) => {
+  const left = new Set(a);
+  const right = new Set(b);
+  const shared = [...left].filter((value) => right.has(value));
+  const union = new Set([...left, ...right]).size;
+  return { shared, score: union === 0 ? 0 : shared.length / union };
+};
+
+// Overlap of two ranges as a share of their combined span. Open ends and
+// missing data count as no evidence either way.
+const rangeOverlap = (a: Game, b: Game, key: RangeKey) => {
+  const { min, max } = gameRangeFields[key];
+  const [aMin, aMax, bMin, bMax] = [a[min], a[max], b[min], b[max]];
+  if (aMin == null || aMax == null || bMin == null || bMax == null) return 0;
+  const overlap = Math.min(aMax, bMax) - Math.max(aMin, bMin);
+  if (overlap < 0) return 0;
+  const span = Math.max(aMax, bMax) - Math.min(aMin, bMin);
+  return span === 0 ? 1 : overlap / span;
+};
+
+const prepCloseness = (a: Game, b: Game) => {
+  if (!a.prepLevel || !b.prepLevel) return 0;
+  const distance = Math.abs(
+    prepLevels.indexOf(a.prepLevel) - prepLevels.indexOf(b.prepLevel)
+  );
+  return 1 - distance / (prepLevels.length - 1);
+};
+
+const listReason = (label: string, values: string[]) =>
+  `${label}: ${values.slice(0, 3).map(prettifyFilterValue).join(', ')}${values.length > 3 ? '…' : ''}`;
+
+/**
+ * Weighted similarity between two games from shared tags and skills,
+ * category, overlapping age and player ranges, and prep level.
+ */
+export const scoreSimilarity = (a: Game, b: Game) => {
+  const tags = jaccard(a.tags, b.tags);
+  const skills = jaccard(a.skillsDeveloped, b.skillsDeveloped);
+  const sameCategory = a.category != null && a.category === b.category;
+  const age = rangeOverlap(a, b, 'age');
+  const players = rangeOverlap(a, b, 'players');
+  const prep = prepCloseness(a, b);
+
+  const parts: { score: number; reason: string | null }[] = [
+    {
+      score: tags.score * weights.tags,
+      reason: tags.shared.length > 0 ? listReason('Shared tags', tags.shared) : null,
+    },
+    {
+      score: skills.score * weights.skills,
+      reason: skills.shared.length > 0 ? listReason('Builds', skills.shared) : null,
+    },
+    {
+      score: sameCategory ? weights.category : 0,
+      reason: sameCategory ? `Also a ${a.category} game` : null,
+    },
+    { score: age * weights.age, reason: age >= 0.5 ? 'Similar ages' : null },
+    {
+      score: players * weights.players,
+      reason: players >= 0.5 ? 'Similar group size' : null,
+    },
+    { score: prep * weights.prep, reason: prep === 1 ? 'Same prep' : null },
+  ];
+
+  // Rounded so float noise can't reorder ties between builds
+  const score = Math.round(parts.reduce((total, part) => total + part.score, 0) * 1000) / 1000;
+  const reasons = parts
+    .filter((part) => part.reason !== null && part.score > 0)
+    .sort((x, y) => y.score - x.score)
+    .map((part) => part.reason as string);
+
+  return { score, reasons };
+};
+
+/**
+ * Top matches for every game, best first with ties broken by id so the
+ * output is identical on every build. Games listed in `exclude` (for
+ * example explicit related games) are left out.
+ */
+export const recommendGames = (
+  games: Game[],
+  {
+    limit = DEFAULT_RECOMMENDATION_LIMIT,
+    minScore = MIN_RECOMMENDATION_SCORE,
+    exclude = {},
+  }: { limit?: number; minScore?: number; exclude?: Record<string, string[]> } = {}
+): Record<string, Recommendation[]> =>
+  Object.fromEntries(
+    games.map((game) => {
+      const skip = new Set([game.id, ...(exclude[game.id] ?? [])]);
+      const ranked = games
+        .filter((other) => !skip.has(other.id))
+        .map((other) => ({ gameId: other.id, ...scoreSimilarity(game, other) }))
+        .filter((candidate) => candidate.score >= minScore)
+        .sort((x, y) => y.score - x.score || x.gameId.localeCompare(y.gameId))
+        .slice(0, limit);
+      return [game.id, ranked];
+    })
+  );
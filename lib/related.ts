@@ -0,0 +1,127 @@
+// lib/related.ts
+import type { Game } from './types';
+import { slugify } from './utils';
+
+export type RelatedMatch = 'id' | 'name' | 'regionalName' | 'prefix';
+
+export interface ResolvedReference {
+  reference: string;
+  gameId: string;
+  matchedBy: RelatedMatch;
+}
+
+export interface UnresolvedReference {
+  gameId: string;
+  gameName: string;
+  reference: string;
+  // Set when the reference matched several games equally well
+  candidates: string[];
+}
+
+export interface RelatedGamesGraph {
+  // Resolved game ids per game, in the order they were authored
+  related: Record<string, string[]>;
+  unresolved: UnresolvedReference[];
+}
+
+type NameIndex = Map<RelatedMatch, Map<string, Set<string>>>;
+
+// Quotes and apostrophes vary between records ("Who’s" vs "Who's")
+const toKey = (value: string) => slugify(value.replace(/[’'‘`]/g, ''));
+
+// "Keep Away (Monkey in the Middle)" is known by both halves
+const nameVariants = (value: string) => {
+  const variants = [value];
+  const bracketed = /^(.*?)\s*\(([^)]+)\)\s*$/.exec(value);
+  if (bracketed) variants.push(bracketed[1], bracketed[2]);
+  return variants.map(toKey).filter((key) => key.length > 0);
+};
+
+const addKey = (index: NameIndex, match: RelatedMatch, key: string, gameId: string) => {
+  const bucket = index.get(match) ?? new Map<string, Set<string>>();
+  const ids = bucket.get(key) ?? new Set<string>();
+  ids.add(gameId);
+  bucket.set(key, ids);
+  index.set(match, bucket);
+};
+
+export const buildNameIndex = (games: Game[]): NameIndex => {
+  const index: NameIndex = new Map();
+  games.forEach((game) => {
+    addKey(index, 'id', game.id, game.id);
+    nameVariants(game.name).forEach((key) => addKey(index, 'name', key, game.id));
+    game.regionalNames.forEach((regionalName) =>
+      nameVariants(regionalName).forEach((key) =>
+        addKey(index, 'regionalName', key, game.id)
+      )
+    );
+  });
+  return index;
+};
+
+// Stronger matches win; within a tier, several games means the name is ambiguous.
+const exactTiers: RelatedMatch[] = ['id', 'name', 'regionalName'];
+
+/**
+ * Resolves a free-text reference such as "Pass the Ring" or
+ * "British Bulldog (safe variants)" to a game id. Falls back to a unique
+ * game whose name starts with the reference, so "Button, Button" finds
+ * "Button, Button, Who’s Got the Button?".
+ */
+export const resolveReference = (
+  index: NameIndex,
+  reference: string
+): ResolvedReference | { candidates: string[] } | null => {
+  const keys = nameVariants(reference);
+  for (const match of exactTiers) {
+    const bucket = index.get(match);
+    for (const key of keys) {
+      const ids = bucket?.get(key);
+      if (!ids) continue;
+      if (ids.size === 1) {
+        return { reference, gameId: [...ids][0], matchedBy: match };
+      }
+      return { candidates: [...ids].sort() };
+    }
+  }
+
+  const [key] = keys;
+  if (!key) return null;
+  const prefixed = new Set<string>();
+  index.get('name')?.forEach((ids, name) => {
+    if (name.startsWith(`${key}-`)) ids.forEach((id) => prefixed.add(id));
+  });
+  if (prefixed.size === 1) {
+    return { reference, gameId: [...prefixed][0], matchedBy: 'prefix' };
+  }
+  return prefixed.size > 1 ? { candidates: [...prefixed].sort() } : null;
+};
+
+export const resolveRelatedGames = (games: Game[]): RelatedGamesGraph => {
+  const index = buildNameIndex(games);
+  const related: Record<string, string[]> = {};
+  const unresolved: UnresolvedReference[] = [];
+
+  games.forEach((game) => {
+    const ids: string[] = [];
+    game.relatedGames.forEach((reference) => {
+      const result = resolveReference(index, reference);
+      if (result && 'gameId' in result) {
+        // Self-references and repeats add nothing to the page
+        if (result.gameId !== game.id && !ids.includes(result.gameId)) {
+          ids.push(result.gameId);
+        }
+        return;
+      }
+      unresolved.push({
+        gameId: game.id,
+        gameName: game.name,
+        reference,
+        candidates: result?.candidates ?? [],
+      });
+    });
+    related[game.id] = ids;
+  });
+
+  return { related, unresolved };
+};
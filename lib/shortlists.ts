@@ -0,0 +1,55 @@
+// lib/shortlists.ts
+import { slugify } from './utils';
+
+export type Shortlist = {
+  id: string;
+  name: string;
+  gameIds: string[];
+};
+
+export const DEFAULT_SHORTLIST_ID = 'favourites';
+
+export const createDefaultShortlists = (): Shortlist[] => [
+  { id: DEFAULT_SHORTLIST_ID, name: 'Favourites', gameIds: [] },
+];
+
+// Game ids are slugs, so they can be joined with commas without escaping
+const GAME_ID_PATTERN = /^[\w-]+$/;
+
+export type SharedShortlist = {
+  name: string;
+  gameIds: string[];
+};
+
+// Query string for sharing a shortlist, e.g. `name=Rainy+day&games=tag,stuck-in-the-mud`
+export const encodeShortlistParams = ({ name, gameIds }: SharedShortlist) =>
+  new URLSearchParams({ name, games: gameIds.join(',') }).toString();
+
+export const decodeShortlistParams = (
+  params: Pick<URLSearchParams, 'get'>
+): SharedShortlist | null => {
+  const games = params.get('games');
+  if (!games) return null;
+  const gameIds = Array.from(
+    new Set(
+      games
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => GAME_ID_PATTERN.test(id))
+    )
+  );
+  if (gameIds.length === 0) return null;
+  const name = params.get('name')?.trim() || 'Shared shortlist';
+  return { name, gameIds };
+};
+
+export const createShortlistId = (name: string, existing: Shortlist[]) => {
+  const base = slugify(name) || 'list';
+  let id = base;
+  let suffix = 2;
+  while (existing.some((list) => list.id === id)) {
+    id = `${base}-${suffix}`;
+    suffix += 1;
+  }
+  return id;
+};
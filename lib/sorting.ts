@@ -0,0 +1,51 @@
+// lib/sorting.ts
+import type { SortMode } from './constants';
+import type { Game } from './types';
+import { prepLevels } from './vocabulary';
+
+const compareNames = (a: Game, b: Game) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+// Ascending, with missing values after every known value
+const compareNullable = (
+  a: number | null | undefined,
+  b: number | null | undefined
+) => {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return a - b;
+};
+
+const prepRank = (game: Game) =>
+  game.prepLevel ? prepLevels.indexOf(game.prepLevel) : null;
+
+/**
+ * Orders games for display. `games` is expected in relevance order when a
+ * query is active; `sourceOrder` maps ids to their position in games.json,
+ * where later entries are the most recently added.
+ */
+export const sortGames = (
+  games: Game[],
+  mode: SortMode,
+  { hasQuery, sourceOrder }: { hasQuery: boolean; sourceOrder: Map<string, number> }
+): Game[] => {
+  // Fuse already ranks results; without a query, relevance falls back to name
+  if (mode === 'relevance' && hasQuery) return games;
+
+  const comparators: Record<SortMode, (a: Game, b: Game) => number> = {
+    relevance: () => 0,
+    name: () => 0,
+    age: (a, b) =>
+      compareNullable(a.ageMin, b.ageMin) || compareNullable(a.ageMax, b.ageMax),
+    players: (a, b) =>
+      compareNullable(a.playersMin, b.playersMin) ||
+      compareNullable(a.playersMax, b.playersMax),
+    prep: (a, b) => compareNullable(prepRank(a), prepRank(b)),
+    recent: (a, b) =>
+      (sourceOrder.get(b.id) ?? -1) - (sourceOrder.get(a.id) ?? -1),
+  };
+
+  const compare = comparators[mode];
+  return [...games].sort((a, b) => compare(a, b) || compareNames(a, b));
+};
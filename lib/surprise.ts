@@ -0,0 +1,76 @@
+// lib/surprise.ts
+import type { Game } from './types';
+
+// How many recent picks a fresh roll tries to avoid
+export const RECENT_PICK_LIMIT = 10;
+
+// FNV-1a, so any string can seed the generator
+const hashSeed = (seed: string) => {
+  let hash = 2166136261;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for picking games
+export const createSeededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = () => Math.random().toString(36).slice(2, 8);
+
+/**
+ * The game a seed lands on. Candidates are ordered by id first, so the same
+ * seed and filters give the same pick regardless of search or sort order.
+ */
+export const pickSeededGame = (games: Game[], seed: string): Game | null => {
+  if (games.length === 0) return null;
+  const ordered = [...games].sort((a, b) => a.id.localeCompare(b.id));
+  const random = createSeededRandom(seed);
+  return ordered[Math.floor(random() * ordered.length)];
+};
+
+export type SurpriseRoll = { seed: string; game: Game };
+
+/**
+ * Draws fresh seeds until one lands on a game that wasn't picked recently.
+ * Once every candidate has come up, only the latest pick is avoided so a
+ * re-roll still changes the game where it can.
+ */
+export const rollSurprise = (
+  games: Game[],
+  recentIds: string[],
+  nextSeed: () => string = createSeed,
+  maxAttempts = 50
+): SurpriseRoll | null => {
+  if (games.length === 0) return null;
+  const candidateIds = new Set(games.map((game) => game.id));
+  const recent = recentIds.filter((id) => candidateIds.has(id));
+  const avoid = new Set(
+    recent.length >= candidateIds.size ? recent.slice(-1) : recent
+  );
+  if (avoid.size >= candidateIds.size) avoid.clear();
+
+  let roll: SurpriseRoll | null = null;
+  for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
+    const seed = nextSeed();
+    const game = pickSeededGame(games, seed);
+    if (!game) return null;
+    roll = { seed, game };
+    if (!avoid.has(game.id)) break;
+  }
+  return roll;
+};
+
+// Newest last, capped at RECENT_PICK_LIMIT
+export const rememberPick = (recentIds: string[], gameId: string) =>
+  [...recentIds.filter((id) => id !== gameId), gameId].slice(-RECENT_PICK_LIMIT);
@@ -1,16 +1,52 @@
 // lib/types.ts
 import { z } from 'zod';
+import {
+  categories,
+  energyLevels,
+  prepLevels,
+  settings,
+  spaceSizes,
+  surfaces,
+  traditionalities,
+} from './vocabulary';
+
+// Shape version written by this build. Records without a `schemaVersion`
+// are version 1; `lib/migrations.ts` upgrades older records on load.
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export const mediaKinds = ['setup', 'playing', 'diagram'] as const;
+
+// An image of the game. `url` is a path under public/ (e.g. `/media/tag-setup.jpg`)
+// or an absolute http(s) URL. Missing alt text is allowed but flagged.
+export const GameMediaSchema = z.object({
+  url: z.string().min(1, 'Image url is required'),
+  alt: z.string().default(''),
+  caption: z.string().nullable().optional(),
+  kind: z.enum(mediaKinds),
+});
 
 export const GameSchema = z.object({
+  schemaVersion: z
+    .number()
+    .int()
+    .min(1)
+    .max(
+      CURRENT_SCHEMA_VERSION,
+      `Written for a newer schema; this build reads up to version ${CURRENT_SCHEMA_VERSION}`
+    )
+    .default(CURRENT_SCHEMA_VERSION),
   id: z.string().min(1),
   name: z.string().min(1, 'Name is required'),
   description: z.string().nullable().optional(),
-  category: z.string().nullable().optional(),
+  category: z.enum(categories).nullable().optional(),
   ageMin: z.number().int().nullable().optional(),
   ageMax: z.number().int().nullable().optional(),
   playersMin: z.number().int().nullable().optional(),
   playersMax: z.number().int().nullable().optional(),
   recommendedPlayersText: z.string().nullable().optional(),
+  // Typical length of one game, in minutes
+  durationMin: z.number().int().nullable().optional(),
+  durationMax: z.number().int().nullable().optional(),
   equipment: z.string().nullable().optional(),
   generalRules: z.array(z.string()).default([]),
   variations: z.array(z.string()).default([]),
@@ -19,12 +55,34 @@ export const GameSchema = z.object({
   regionalPopularity: z.array(z.string()).default([]),
   regionalNames: z.array(z.string()).default([]),
   keywords: z.array(z.string()).default([]),
-  traditionality: z.string().nullable().optional(),
+  traditionality: z.enum(traditionalities).nullable().optional(),
   historicalNotes: z.string().nullable().optional(),
   notes: z.string().nullable().optional(),
   relatedGames: z.array(z.string()).default([]),
   links: z.array(z.string()).default([]),
-  prepLevel: z.string().nullable().optional(),
+  prepLevel: z.enum(prepLevels).nullable().optional(),
+  energyLevel: z.enum(energyLevels).nullable().optional(),
+  // Where the game can be played: indoors, outdoors or both, the smallest
+  // space that works, and the ground it suits
+  setting: z.array(z.enum(settings)).default([]),
+  minSpace: z.enum(spaceSizes).nullable().optional(),
+  surfaces: z.array(z.enum(surfaces)).default([]),
+  media: z.array(GameMediaSchema).default([]),
+  // Position in the catalogue, newest last. Written by `games split` and
+  // `games add` so the one-file-per-game layout keeps the order of games.json.
+  addedOrder: z.number().int().positive().nullable().optional(),
+  // Original free text for the controlled-vocabulary fields, as authored.
+  sourceText: z
+    .object({
+      category: z.string().nullable().optional(),
+      prepLevel: z.string().nullable().optional(),
+      traditionality: z.string().nullable().optional(),
+      energyLevel: z.string().nullable().optional(),
+      minSpace: z.string().nullable().optional(),
+    })
+    .default({}),
 });
 
-export type Game = z.infer<typeof GameSchema>;
\ No newline at end of file
+export type Game = z.infer<typeof GameSchema>;
+export type GameMedia = z.infer<typeof GameMediaSchema>;
+export type MediaKind = (typeof mediaKinds)[number];
\ No newline at end of file
@@ -0,0 +1,128 @@
+// lib/validation.ts
+import fs from 'fs';
+import path from 'path';
+import { normaliseRecord } from './normalise';
+import { resolveRelatedGames } from './related';
+import type { Game } from './types';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface DatasetIssue {
+  severity: IssueSeverity;
+  // Zero-based position in the source array; shown to people as "entry #n"
+  index: number;
+  id: string | null;
+  // Dotted field path such as `relatedGames.1`, or null for the whole record
+  path: string | null;
+  message: string;
+}
+
+export interface DatasetValidation {
+  errors: DatasetIssue[];
+  warnings: DatasetIssue[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+// Whether a local media url such as `/media/tag.jpg` exists under public/
+export const publicFileExists = (url: string) =>
+  fs.existsSync(path.join(PUBLIC_DIR, decodeURIComponent(url.split(/[?#]/)[0])));
+
+const asRecord = (value: unknown): UnknownRecord =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as UnknownRecord)
+    : {};
+
+/**
+ * Checks the raw dataset the way the loader will see it. Errors are records
+ * that would be dropped (schema failures, missing or duplicate ids) and
+ * related games that match nothing; warnings are values the loader fixes or
+ * discards on its own, including fields the schema doesn't know. Local images
+ * must exist under public/, and images without alt text are warnings.
+ */
+export const validateDataset = (
+  rawRecords: unknown[],
+  { fileExists = publicFileExists }: { fileExists?: (url: string) => boolean } = {}
+): DatasetValidation => {
+  const issues: DatasetIssue[] = [];
+  const firstIndexById = new Map<string, number>();
+  const published: Game[] = [];
+
+  rawRecords.forEach((rawRecord, index) => {
+    const { id: derivedId, game, fixes, warnings, errors } = normaliseRecord(rawRecord, {
+      fileExists,
+    });
+    const id = derivedId || null;
+    const add = (severity: IssueSeverity, path: string | null, message: string) =>
+      issues.push({ severity, index, id, path, message });
+
+    errors.forEach((error) => add('error', error.path, error.message));
+
+    if (id && firstIndexById.has(id)) {
+      add('error', 'id', `Duplicate id "${id}"; first used by entry #${(firstIndexById.get(id) ?? 0) + 1}.`);
+    } else if (id) {
+      firstIndexById.set(id, index);
+      if (game) published.push(game);
+    }
+
+    // A swapped range loads, but the source is still wrong
+    fixes
+      .filter((fix) => fix.type === 'swap-range')
+      .forEach((fix) => add('warning', fix.path, fix.message));
+    warnings.forEach((warning) => add('warning', warning.path, warning.message));
+  });
+
+  resolveRelatedGames(published).unresolved.forEach((reference) => {
+    const index = firstIndexById.get(reference.gameId) ?? -1;
+    const related = asRecord(rawRecords[index]).relatedGames;
+    const position = Array.isArray(related)
+      ? related.findIndex((value) => typeof value === 'string' && value.trim() === reference.reference)
+      : -1;
+    issues.push({
+      severity: 'error',
+      index,
+      id: reference.gameId,
+      path: position === -1 ? 'relatedGames' : `relatedGames.${position}`,
+      message:
+        reference.candidates.length > 0
+          ? `“${reference.reference}” is ambiguous; it matches ${reference.candidates.join(', ')}.`
+          : `“${reference.reference}” does not match any game.`,
+    });
+  });
+
+  const byPosition = (a: DatasetIssue, b: DatasetIssue) => a.index - b.index;
+  return {
+    errors: issues.filter((issue) => issue.severity === 'error').sort(byPosition),
+    warnings: issues.filter((issue) => issue.severity === 'warning').sort(byPosition),
+  };
+};
+
+// e.g. `entry #12 (tag) › relatedGames.1: “Tig” does not match any game.`
+// Pass the source file names to show `data/games/tag.json › …` instead.
+export const formatIssue = ({ index, id, path, message }: DatasetIssue, sourceNames?: string[]) => {
+  const field = path ? ` › ${path}` : '';
+  const source = sourceNames?.[index];
+  return source
+    ? `${source}${field}: ${message}`
+    : `entry #${index + 1}${id ? ` (${id})` : ''}${field}: ${message}`;
+};
+
+// Strict mode turns dataset errors into a thrown error so the build fails
+export const STRICT_ENV_VAR = 'GAMES_VALIDATION';
+
+export const isStrictValidation = (env: Record<string, string | undefined> = process.env) =>
+  env[STRICT_ENV_VAR]?.trim().toLowerCase() === 'strict';
+
+export const assertValidDataset = (rawRecords: unknown[], source: string) => {
+  const { errors, warnings } = validateDataset(rawRecords);
+  warnings.forEach((warning) => console.warn(`⚠️  ${source} ${formatIssue(warning)}`));
+  if (errors.length > 0) {
+    throw new Error(
+      `${source} failed strict validation with ${errors.length} error${errors.length === 1 ? '' : 's'}:\n${errors
+        .map((error) => `  ${formatIssue(error)}`)
+        .join('\n')}`
+    );
+  }
+};
@@ -0,0 +1,156 @@
+// lib/vocabulary.ts
+
+// Canonical values for the controlled-vocabulary fields. Order matters: it is
+// the order options are listed in, and for prep levels it runs from least to
+// most preparation, for energy levels from calmest to most energetic, and
+// for spaces from smallest to largest.
+export const categories = ['Group', 'Party', 'Wide', 'Physical Activity'] as const;
+export const prepLevels = ['None', 'Little', 'Medium', 'High'] as const;
+export const traditionalities = ['Traditional', 'Contemporary'] as const;
+export const energyLevels = ['Calm', 'Moderate', 'Lively', 'High'] as const;
+export const settings = ['Indoor', 'Outdoor'] as const;
+export const spaceSizes = ['Table', 'Room', 'Hall', 'Field'] as const;
+export const surfaces = ['Grass', 'Hard court', 'Indoor floor', 'Woodland', 'Sand'] as const;
+
+export type Category = (typeof categories)[number];
+export type PrepLevel = (typeof prepLevels)[number];
+export type Traditionality = (typeof traditionalities)[number];
+export type EnergyLevel = (typeof energyLevels)[number];
+export type Setting = (typeof settings)[number];
+export type SpaceSize = (typeof spaceSizes)[number];
+export type Surface = (typeof surfaces)[number];
+
+type Vocabulary<T extends string> = {
+  values: readonly T[];
+  // Alternative spellings that map onto a canonical value.
+  aliases: Partial<Record<T, string[]>>;
+  // Raw values that are recognised but carry no information.
+  unknown: string[];
+};
+
+export const vocabularies = {
+  category: {
+    values: categories,
+    aliases: {
+      Group: ['group games'],
+      Party: ['party games'],
+      Wide: ['wide game', 'wide games'],
+      'Physical Activity': ['physical'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<Category>,
+  prepLevel: {
+    values: prepLevels,
+    aliases: {
+      None: ['no prep', 'no preparation', 'nothing'],
+      Little: [
+        'low',
+        'very little',
+        'minimal',
+        '1 object',
+        'paper',
+        'pen & paper',
+        'pen and paper',
+        'music',
+      ],
+      Medium: ['some', 'moderate'],
+      High: ['a lot', 'a lot but worth it!', 'lots'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<PrepLevel>,
+  traditionality: {
+    values: traditionalities,
+    aliases: {
+      Traditional: ['classic', 'traditional game'],
+      Contemporary: ['modern'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<Traditionality>,
+  energyLevel: {
+    values: energyLevels,
+    aliases: {
+      Calm: ['low', 'quiet', 'seated', 'sitting down'],
+      Moderate: ['medium', 'some movement'],
+      Lively: ['active', 'energetic'],
+      High: ['very high', 'very active', 'high energy', 'rowdy', 'running'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<EnergyLevel>,
+  setting: {
+    values: settings,
+    aliases: {
+      Indoor: ['indoors', 'inside'],
+      Outdoor: ['outdoors', 'outside'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<Setting>,
+  minSpace: {
+    values: spaceSizes,
+    aliases: {
+      Table: ['seated', 'small', 'table top', 'tabletop'],
+      Room: ['classroom', 'living room', 'medium'],
+      Hall: ['gym', 'sports hall', 'large room', 'large'],
+      Field: ['pitch', 'park', 'wide area', 'very large'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<SpaceSize>,
+  surfaces: {
+    values: surfaces,
+    aliases: {
+      Grass: ['field', 'lawn'],
+      'Hard court': ['tarmac', 'playground', 'concrete'],
+      'Indoor floor': ['floor', 'carpet', 'hall floor', 'gym floor'],
+      Woodland: ['woods', 'forest'],
+      Sand: ['beach'],
+    },
+    unknown: ['unknown'],
+  } satisfies Vocabulary<Surface>,
+};
+
+export type VocabularyField = keyof typeof vocabularies;
+
+export type CanonicalValue<K extends VocabularyField> =
+  (typeof vocabularies)[K]['values'][number];
+
+const toLookupKey = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Built once per field: lookup key -> canonical value (null for "unknown").
+const lookupTables = Object.fromEntries(
+  Object.entries(vocabularies).map(([field, vocabulary]) => {
+    const table = new Map<string, string | null>();
+    const aliases = vocabulary.aliases as Partial<Record<string, string[]>>;
+    vocabulary.values.forEach((value) => {
+      table.set(toLookupKey(value), value);
+      (aliases[value] ?? []).forEach((alias) => table.set(toLookupKey(alias), value));
+    });
+    vocabulary.unknown.forEach((term) => table.set(toLookupKey(term), null));
+    return [field, table];
+  }),
+) as Record<VocabularyField, Map<string, string | null>>;
+
+// True when the raw value is either a canonical value, an alias, or an
+// explicit "unknown" marker. Anything else needs adding to the vocabulary.
+export const isKnownTerm = (field: VocabularyField, value: string) =>
+  lookupTables[field].has(toLookupKey(value));
+
+// Maps free text onto the canonical value for the field. Returns null for
+// empty, "unknown" and unrecognised values.
+export const canonicalise = <K extends VocabularyField>(
+  field: K,
+  value: unknown,
+): CanonicalValue<K> | null => {
+  if (typeof value !== 'string') return null;
+  const match = lookupTables[field].get(toLookupKey(value));
+  return (match ?? null) as CanonicalValue<K> | null;
+};
+
+// The list form of `canonicalise` for multi-valued fields: each item is
+// mapped, unrecognised items are dropped and repeats are removed. Anything
+// that isn't a list is returned as is for the schema to reject.
+export const canonicaliseList = <K extends VocabularyField>(field: K, value: unknown) => {
+  if (!Array.isArray(value)) return value;
+  const canonical = value
+    .map((item) => canonicalise(field, item))
+    .filter((item): item is CanonicalValue<K> => item !== null);
+  return [...new Set(canonical)];
+};
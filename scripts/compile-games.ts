@@ -0,0 +1,44 @@
+// scripts/compile-games.ts
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import {
+  GAMES_FILE,
+  GAMES_SOURCE_DIR,
+  compileGameSources,
+  usesGameSourceDirectory,
+} from '../lib/gameSources';
+
+const relative = (filePath: string) => path.relative(process.cwd(), filePath);
+
+function compileGames() {
+  const checkOnly = process.argv.includes('--check');
+  console.log(`--- Compiling ${relative(GAMES_SOURCE_DIR)} into ${relative(GAMES_FILE)} ---`);
+
+  if (!usesGameSourceDirectory()) {
+    console.log(`No game files in ${relative(GAMES_SOURCE_DIR)}; ${relative(GAMES_FILE)} is used as it is.`);
+    return;
+  }
+
+  const { contents, count, problems } = compileGameSources();
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(`❌ ${problem}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const current = existsSync(GAMES_FILE) ? readFileSync(GAMES_FILE, 'utf8') : null;
+  if (current === contents) {
+    console.log(`✅ ${relative(GAMES_FILE)} is up to date (${count} games).`);
+    return;
+  }
+  if (checkOnly) {
+    console.error(`${relative(GAMES_FILE)} is out of date; run \`npm run compile:games\`.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  writeFileSync(GAMES_FILE, contents);
+  console.log(`✅ Compiled ${count} games into ${relative(GAMES_FILE)}.`);
+}
+
+compileGames();
@@ -0,0 +1,496 @@
+// scripts/games.ts
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { stdin as input, stdout as output } from 'process';
+import {
+  GameField,
+  describeGameFields,
+  findGameIndexes,
+  findNewRecordProblems,
+  formatGamesJson,
+  validateGameRecord,
+} from '../lib/authoring';
+import { applyLintFixes, lintDataset } from '../lib/contentLint';
+import {
+  GAMES_FILE,
+  GAMES_SOURCE_DIR,
+  formatGameSource,
+  gameIdFromFile,
+  nextAddedOrder,
+  readGameSources,
+  readGamesFile,
+  splitGameRecords,
+  usesGameSourceDirectory,
+} from '../lib/gameSources';
+import { migrateGameRecord } from '../lib/migrations';
+import { trimStrings } from '../lib/normalise';
+import { CURRENT_SCHEMA_VERSION, mediaKinds } from '../lib/types';
+import { slugify } from '../lib/utils';
+import { canonicalise, isKnownTerm, type VocabularyField } from '../lib/vocabulary';
+
+type UnknownRecord = Record<string, unknown>;
+
+const USAGE = `Usage: npm run games -- <command> [options]
+
+Commands:
+  add              Prompt for a new game and append it to the catalogue
+  edit <id>        Prompt for changes to an existing game
+  rm <id>          Remove a game
+  fmt              Rewrite every game in canonical key order
+  split            Move games.json into one data/games/<id>.json file per game
+  convert <id>     Switch a game's file between JSON and Markdown
+  migrate          Upgrade every game to the current schemaVersion
+  fix              Apply the content lint autofixes (see \`npm run quality\`)
+
+Options:
+  --index <n>      Pick entry #n when several records share an id
+  --yes            Don't ask for confirmation (rm)
+  --check          Only report whether the games are formatted (fmt)
+  --md             Write new files as Markdown with frontmatter (add, split)
+
+When data/games/ holds game files, commands read and write those files
+(run \`npm run compile:games\` to update games.json); otherwise they edit
+public/games.json. Every command that writes saves in the canonical format
+and refuses to write a record that would add a validation problem (problems
+already in the file, such as a duplicate id, don't block unrelated writes).`;
+
+// Answers that clear a field when editing
+const CLEAR = '-';
+
+// Records plus, in the directory layout, the file each one came from
+interface GameStore {
+  records: unknown[];
+  files: string[] | null;
+  // Extension for files created by `add` and `split`
+  newFileExtension: '.json' | '.md';
+}
+
+const relative = (filePath: string) => path.relative(process.cwd(), filePath);
+
+const loadStore = (newFileExtension: GameStore['newFileExtension']): GameStore => {
+  if (!usesGameSourceDirectory()) {
+    return { records: readGamesFile(GAMES_FILE), files: null, newFileExtension };
+  }
+  const sources = readGameSources();
+  return {
+    records: sources.map((source) => source.record),
+    files: sources.map((source) => source.filePath),
+    newFileExtension,
+  };
+};
+
+const storeLabel = (store: GameStore) => relative(store.files ? GAMES_SOURCE_DIR : GAMES_FILE);
+
+const rl = createInterface({ input, output });
+// Reading through the iterator buffers lines, so piped answers aren't lost
+const lines = rl[Symbol.asyncIterator]();
+
+const ask = async (question: string) => {
+  output.write(question);
+  const { value, done } = await lines.next();
+  if (done) throw new Error('\nInput ended before every question was answered; nothing written.');
+  return value as string;
+};
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === '--index') {
+      flags.set('index', argv[index + 1] ?? '');
+      index += 1;
+    } else if (arg.startsWith('--')) {
+      flags.set(arg.slice(2), true);
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, flags };
+};
+
+const describeCurrent = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '' : ` [${String(value)}]`;
+
+const askText = async (field: GameField, current: unknown) => {
+  for (;;) {
+    const answer = (await ask(`${field.key}${describeCurrent(current)}: `)).trim();
+    if (answer === '') {
+      if (current !== undefined && current !== null && current !== '') return current;
+      if (!field.required) return null;
+      console.log(`  ${field.key} is required.`);
+      continue;
+    }
+    if (answer === CLEAR && !field.required) return null;
+    return answer;
+  }
+};
+
+const askInteger = async (field: GameField, current: unknown) => {
+  for (;;) {
+    const answer = (await ask(`${field.key}${describeCurrent(current)}: `)).trim();
+    if (answer === '') return typeof current === 'number' ? current : null;
+    if (answer === CLEAR) return null;
+    const parsed = Number(answer);
+    if (Number.isInteger(parsed)) return parsed;
+    console.log('  Enter a whole number, or - to clear.');
+  }
+};
+
+const askChoice = async (field: GameField, current: unknown) => {
+  const vocabularyField = field.key as VocabularyField;
+  const options = field.options.map((option, index) => `${index + 1}) ${option}`).join('  ');
+  for (;;) {
+    const answer = (
+      await ask(`${field.key} (${options})${describeCurrent(current)}: `)
+    ).trim();
+    if (answer === '') return current ?? null;
+    if (answer === CLEAR) return null;
+    const byNumber = field.options[Number(answer) - 1];
+    if (byNumber) return byNumber;
+    // Aliases from the vocabulary are stored as their canonical value
+    if (isKnownTerm(vocabularyField, answer)) return canonicalise(vocabularyField, answer);
+    console.log(`  Choose one of: ${field.options.join(', ')}.`);
+  }
+};
+
+const askList = async (field: GameField, current: unknown) => {
+  const items = Array.isArray(current) ? (current as unknown[]) : [];
+  if (items.length > 0) {
+    console.log(`${field.key}:`);
+    items.forEach((item) => console.log(`  - ${String(item)}`));
+  }
+  const hint = [
+    items.length > 0 ? 'Enter to keep, - to clear, or type new items' : 'one per line',
+    ...(field.options.length > 0 ? [`from ${field.options.join(', ')}`] : []),
+  ].join('; ');
+  const first = (await ask(`${field.key} (${hint}; blank line to finish): `)).trim();
+  if (first === '') return items;
+  if (first === CLEAR) return [];
+  const next = [first];
+  for (;;) {
+    const answer = (await ask('  + ')).trim();
+    if (answer === '') return next;
+    next.push(answer);
+  }
+};
+
+const askMedia = async (field: GameField, current: unknown) => {
+  const items = Array.isArray(current) ? (current as UnknownRecord[]) : [];
+  if (items.length > 0) {
+    console.log(`${field.key}:`);
+    items.forEach((item) => console.log(`  - [${String(item.kind)}] ${String(item.url)}`));
+  }
+  const hint = items.length > 0 ? 'Enter to keep, - to clear, or an image url to add' : 'image url';
+  let url = (await ask(`${field.key} (${hint}; blank line to finish): `)).trim();
+  if (url === CLEAR) return [];
+  const next = [...items];
+  while (url !== '') {
+    const alt = (await ask('  alt text: ')).trim();
+    const caption = (await ask('  caption: ')).trim();
+    let kind = '';
+    while (!(mediaKinds as readonly string[]).includes(kind)) {
+      kind = (await ask(`  kind (${mediaKinds.join(', ')}): `)).trim().toLowerCase();
+    }
+    next.push({ url, alt, caption: caption || null, kind });
+    url = (await ask('  + url: ')).trim();
+  }
+  return next;
+};
+
+const promptForGame = async (existing: UnknownRecord) => {
+  // Older records are upgraded first, so edits are saved at the current version
+  const { record } = migrateGameRecord({ ...existing });
+  for (const field of describeGameFields()) {
+    if (field.key === 'id') continue;
+    const current = record[field.key];
+    if (field.kind === 'integer') record[field.key] = await askInteger(field, current);
+    else if (field.kind === 'choice') record[field.key] = await askChoice(field, current);
+    else if (field.kind === 'list') record[field.key] = await askList(field, current);
+    else if (field.kind === 'media') record[field.key] = await askMedia(field, current);
+    else record[field.key] = await askText(field, current);
+
+    // Offer the slug as the id as soon as the name is known
+    if (field.key === 'name') {
+      const suggested =
+        typeof existing.id === 'string' && existing.id ? existing.id : slugify(String(record.name));
+      const answer = (await ask(`id [${suggested}]: `)).trim();
+      record.id = answer || suggested;
+    }
+  }
+  return trimStrings(record);
+};
+
+const confirm = async (question: string) =>
+  /^y(es)?$/i.test((await ask(`${question} (y/N) `)).trim());
+
+// Resolves an id (and optional --index) to exactly one record
+const selectIndex = (records: unknown[], id: string | undefined, indexFlag: string | true | undefined) => {
+  if (!id) throw new Error('Give the id of the game, e.g. `npm run games -- edit tag`.');
+  const matches = findGameIndexes(records, id);
+  if (matches.length === 0) throw new Error(`No game with id "${id}".`);
+  if (typeof indexFlag === 'string') {
+    const chosen = Number(indexFlag) - 1;
+    if (!matches.includes(chosen)) {
+      throw new Error(
+        `Entry #${indexFlag} is not "${id}"; it appears at ${matches.map((match) => `#${match + 1}`).join(', ')}.`
+      );
+    }
+    return chosen;
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `"${id}" appears ${matches.length} times (${matches.map((match) => `#${match + 1}`).join(', ')}); choose one with --index.`
+    );
+  }
+  return matches[0];
+};
+
+// Writes one record to its source file, renaming the file if the id changed
+const writeSourceFile = (store: GameStore, record: UnknownRecord, index: number) => {
+  const existing = store.files?.[index];
+  const extension = existing ? path.extname(existing) : store.newFileExtension;
+  const filePath = path.join(GAMES_SOURCE_DIR, `${String(record.id)}${extension}`);
+  writeFileSync(filePath, formatGameSource(filePath, record));
+  if (existing && existing !== filePath) unlinkSync(existing);
+};
+
+// Problems already in the store, such as a duplicate id, don't block a write
+const saveIfValid = (store: GameStore, records: unknown[], indexes: number[]) => {
+  const problems = findNewRecordProblems(store.records, records, indexes);
+  if (problems.length > 0) {
+    console.error(
+      `Refusing to write ${storeLabel(store)}:\n${problems.map((problem) => `  ${problem}`).join('\n')}`
+    );
+    process.exitCode = 1;
+    return false;
+  }
+  if (store.files) {
+    indexes.forEach((index) => writeSourceFile(store, records[index] as UnknownRecord, index));
+  } else {
+    writeFileSync(GAMES_FILE, formatGamesJson(records));
+  }
+  return true;
+};
+
+async function addGame(store: GameStore) {
+  console.log(`Adding a game. Press Enter to skip optional fields.\n`);
+  const prompted = await promptForGame({});
+  // games.json keeps order by position; game files need it written down
+  const record = store.files ? { ...prompted, addedOrder: nextAddedOrder(store.records) } : prompted;
+  const next = [...store.records, record];
+  if (saveIfValid(store, next, [next.length - 1])) {
+    console.log(`✅ Added "${record.name}" as entry #${next.length}.`);
+  }
+}
+
+async function editGame(store: GameStore, id: string | undefined, indexFlag?: string | true) {
+  const index = selectIndex(store.records, id, indexFlag);
+  console.log(`Editing entry #${index + 1}. Press Enter to keep a value, ${CLEAR} to clear it.\n`);
+  const record = await promptForGame(store.records[index] as UnknownRecord);
+  const next = store.records.map((existing, position) => (position === index ? record : existing));
+  if (saveIfValid(store, next, [index])) {
+    console.log(`✅ Saved "${record.name}".`);
+  }
+}
+
+async function removeGame(
+  store: GameStore,
+  id: string | undefined,
+  indexFlag: string | true | undefined,
+  skipConfirm: boolean
+) {
+  const index = selectIndex(store.records, id, indexFlag);
+  const name = (store.records[index] as UnknownRecord).name ?? id;
+  if (!skipConfirm && !(await confirm(`Remove "${name}" (entry #${index + 1})?`))) {
+    console.log('Nothing removed.');
+    return;
+  }
+  if (store.files) {
+    unlinkSync(store.files[index]);
+  } else {
+    writeFileSync(
+      GAMES_FILE,
+      formatGamesJson(store.records.filter((_, position) => position !== index))
+    );
+  }
+  console.log(`✅ Removed "${name}".`);
+}
+
+// Indexes of the records whose file on disk differs from the canonical format
+const unformattedIndexes = (store: GameStore) => {
+  const { files, records } = store;
+  if (!files) {
+    return formatGamesJson(records) === readFileSync(GAMES_FILE, 'utf8')
+      ? []
+      : records.map((_, index) => index);
+  }
+  return files.flatMap((filePath, index) =>
+    formatGameSource(filePath, records[index] as UnknownRecord) === readFileSync(filePath, 'utf8')
+      ? []
+      : [index]
+  );
+};
+
+function formatGames(store: GameStore, checkOnly: boolean) {
+  const { files } = store;
+  const indexes = unformattedIndexes(store);
+  if (checkOnly) {
+    if (indexes.length > 0) {
+      const where = files
+        ? indexes.map((index) => relative(files[index])).join(', ')
+        : storeLabel(store);
+      console.error(`Not formatted: ${where}; run \`npm run games -- fmt\`.`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+  if (indexes.length === 0) {
+    console.log('Already formatted.');
+    return;
+  }
+  if (saveIfValid(store, store.records, indexes)) {
+    console.log(`✅ Formatted ${indexes.length} of ${store.records.length} games.`);
+  }
+}
+
+// One-off move from the single file to the directory layout
+function splitGames(store: GameStore) {
+  if (store.files) {
+    throw new Error(`${storeLabel(store)} already holds game files; nothing to split.`);
+  }
+  // Records reusing an earlier id are left out, as the loader already drops them
+  const { sources, dropped } = splitGameRecords(store.records);
+  const droppedIndexes = new Set(dropped.map(({ index }) => index));
+  const problems = store.records.flatMap((_, index) =>
+    droppedIndexes.has(index)
+      ? []
+      : validateGameRecord(store.records, index).map((message) => `  entry #${index + 1}: ${message}`)
+  );
+  if (problems.length > 0) {
+    throw new Error(`Fix these before splitting ${relative(GAMES_FILE)}:\n${problems.join('\n')}`);
+  }
+  mkdirSync(GAMES_SOURCE_DIR, { recursive: true });
+  sources.forEach(({ id, record }) => {
+    const filePath = path.join(GAMES_SOURCE_DIR, `${id}${store.newFileExtension}`);
+    if (existsSync(filePath)) throw new Error(`${relative(filePath)} already exists.`);
+    writeFileSync(filePath, formatGameSource(filePath, record));
+  });
+  dropped.forEach(({ index, id, firstIndex }) =>
+    console.warn(
+      `⚠️  Skipped entry #${index + 1}: id "${id}" is already used by entry #${firstIndex + 1}, ` +
+        'so the catalogue never showed it.'
+    )
+  );
+  console.log(
+    `✅ Wrote ${sources.length} files to ${relative(GAMES_SOURCE_DIR)}. ` +
+      'Edit those from now on; `npm run compile:games` rebuilds games.json.'
+  );
+}
+
+function convertGame(store: GameStore, id: string | undefined, indexFlag?: string | true) {
+  if (!store.files) {
+    throw new Error('Only games in data/games/ can be converted; run `npm run games -- split` first.');
+  }
+  const index = selectIndex(store.records, id, indexFlag);
+  const existing = store.files[index];
+  const extension = path.extname(existing) === '.md' ? '.json' : '.md';
+  const filePath = path.join(path.dirname(existing), `${gameIdFromFile(existing)}${extension}`);
+  if (existsSync(filePath)) throw new Error(`${relative(filePath)} already exists.`);
+  writeFileSync(filePath, formatGameSource(filePath, store.records[index] as UnknownRecord));
+  unlinkSync(existing);
+  console.log(`✅ Converted ${relative(existing)} to ${relative(filePath)}.`);
+}
+
+function migrateGames(store: GameStore) {
+  const results = store.records.map((record) =>
+    record !== null && typeof record === 'object' && !Array.isArray(record)
+      ? migrateGameRecord(record as UnknownRecord)
+      : null
+  );
+  const indexes = results.flatMap((result, index) =>
+    result && (store.records[index] as UnknownRecord).schemaVersion !== result.record.schemaVersion
+      ? [index]
+      : []
+  );
+  if (indexes.length === 0) {
+    console.log(`Every game is already at schema version ${CURRENT_SCHEMA_VERSION}.`);
+    return;
+  }
+  indexes.forEach((index) => {
+    const applied = results[index]?.applied ?? [];
+    if (applied.length > 0) console.log(`  entry #${index + 1}: ${applied.join('; ')}`);
+  });
+  const next = store.records.map((record, index) => results[index]?.record ?? record);
+  if (saveIfValid(store, next, indexes)) {
+    console.log(`✅ Upgraded ${indexes.length} games to schema version ${CURRENT_SCHEMA_VERSION}.`);
+  }
+}
+
+// Only records lint reports on; duplicates and invalid records are left alone
+function fixGames(store: GameStore) {
+  const fixable = new Set(
+    lintDataset(store.records)
+      .filter((finding) => finding.fixable)
+      .map((finding) => finding.index)
+  );
+  const results = store.records.map((record, index) =>
+    fixable.has(index) ? applyLintFixes(record as UnknownRecord) : null
+  );
+  const indexes = [...fixable].sort((a, b) => a - b);
+  if (indexes.length === 0) {
+    console.log('Nothing to fix; run `npm run quality` for problems that need a person.');
+    return;
+  }
+  indexes.forEach((index) =>
+    console.log(`  entry #${index + 1}: ${results[index]?.applied.join(', ')}`)
+  );
+  const next = store.records.map((record, index) => results[index]?.record ?? record);
+  if (saveIfValid(store, next, indexes)) {
+    console.log(`✅ Fixed ${indexes.length} game${indexes.length === 1 ? '' : 's'} in ${storeLabel(store)}.`);
+  }
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const [command, id] = positional;
+  const store = loadStore(flags.has('md') ? '.md' : '.json');
+
+  switch (command) {
+    case 'add':
+      await addGame(store);
+      break;
+    case 'edit':
+      await editGame(store, id, flags.get('index'));
+      break;
+    case 'rm':
+      await removeGame(store, id, flags.get('index'), flags.has('yes'));
+      break;
+    case 'fmt':
+      formatGames(store, flags.has('check'));
+      break;
+    case 'split':
+      splitGames(store);
+      break;
+    case 'migrate':
+      migrateGames(store);
+      break;
+    case 'fix':
+      fixGames(store);
+      break;
+    case 'convert':
+      convertGame(store, id, flags.get('index'));
+      break;
+    default:
+      console.log(USAGE);
+      if (command) process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error: Error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => rl.close());
@@ -0,0 +1,193 @@
+// scripts/generate-pdfs.ts
+import PDFDocument from 'pdfkit';
+import { createWriteStream } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+import { games } from '../lib/loadGames';
+import {
+  PDF_DIRECTORY,
+  formatRulesMarkdown,
+  markdownToBlocks,
+  stripInlineMarkdown,
+} from '../lib/print';
+import { formatRangeLabel } from '../lib/ranges';
+import type { Game } from '../lib/types';
+import { prettifyFilterValue } from '../lib/utils';
+
+const OUTPUT_DIR = path.join(process.cwd(), 'public', PDF_DIRECTORY);
+
+// A4 in points, with the same 12mm margins as the print stylesheet
+const MARGIN = 34;
+const COLOURS = {
+  ink: '#4B4B4B',
+  muted: '#7a7a7a',
+  sprout: '#4f8a4f',
+  border: '#cfe0cf',
+  panel: '#f6f9f1',
+};
+
+// Only the PDF standard fonts are used, so nothing is fetched or embedded
+const FONTS = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+const contentWidth = (doc: Doc) => doc.page.width - MARGIN * 2;
+
+const statCards = (game: Game) =>
+  [
+    {
+      label: 'Players',
+      value:
+        game.playersMin != null || game.playersMax != null
+          ? formatRangeLabel({ min: game.playersMin ?? null, max: game.playersMax ?? null }, 'players')
+          : null,
+    },
+    {
+      label: 'Age range',
+      value:
+        game.ageMin != null || game.ageMax != null
+          ? formatRangeLabel({ min: game.ageMin ?? null, max: game.ageMax ?? null }, 'years')
+          : null,
+    },
+    {
+      label: 'Duration',
+      value:
+        game.durationMin != null || game.durationMax != null
+          ? formatRangeLabel({ min: game.durationMin ?? null, max: game.durationMax ?? null }, 'minutes')
+          : null,
+    },
+    { label: 'Energy', value: game.energyLevel ?? null },
+    { label: 'Prep level', value: game.prepLevel ?? null },
+    { label: 'Traditionality', value: game.traditionality ?? null },
+  ].filter((card): card is { label: string; value: string } => card.value !== null);
+
+const sectionHeading = (doc: Doc, title: string) => {
+  doc.moveDown(0.8);
+  doc.font(FONTS.bold).fontSize(14).fillColor(COLOURS.ink).text(title, MARGIN);
+  doc.moveDown(0.3);
+};
+
+const bodyText = (doc: Doc) => doc.font(FONTS.regular).fontSize(10.5).fillColor(COLOURS.ink);
+
+const drawStatCards = (doc: Doc, game: Game) => {
+  const cards = statCards(game);
+  if (cards.length === 0) return;
+
+  const gap = 8;
+  const height = 40;
+  const width = (contentWidth(doc) - gap * (cards.length - 1)) / cards.length;
+  const top = doc.y;
+
+  cards.forEach((card, index) => {
+    const left = MARGIN + index * (width + gap);
+    doc
+      .roundedRect(left, top, width, height, 8)
+      .fillAndStroke(COLOURS.panel, COLOURS.border);
+    doc
+      .font(FONTS.bold)
+      .fontSize(7.5)
+      .fillColor(COLOURS.muted)
+      .text(card.label.toUpperCase(), left + 10, top + 8, { width: width - 20, lineBreak: false });
+    doc
+      .font(FONTS.regular)
+      .fontSize(11)
+      .fillColor(COLOURS.ink)
+      .text(card.value, left + 10, top + 20, { width: width - 20, lineBreak: false });
+  });
+
+  doc.x = MARGIN;
+  doc.y = top + height;
+};
+
+const drawList = (doc: Doc, items: string[], ordered: boolean) => {
+  items.forEach((item, index) => {
+    const marker = ordered ? `${index + 1}.` : '•';
+    const top = doc.y;
+    bodyText(doc).text(marker, MARGIN, top, { width: 18 });
+    doc.text(item, MARGIN + 18, top, { width: contentWidth(doc) - 18 });
+    doc.moveDown(0.25);
+  });
+  doc.x = MARGIN;
+};
+
+const drawRules = (doc: Doc, markdown: string) => {
+  markdownToBlocks(markdown).forEach((block) => {
+    if (block.kind === 'heading') {
+      doc.moveDown(0.3);
+      doc.font(FONTS.bold).fontSize(11.5).fillColor(COLOURS.ink).text(block.text, MARGIN);
+    } else if (block.kind === 'list') {
+      drawList(doc, block.items, block.ordered);
+    } else {
+      bodyText(doc).text(block.text, MARGIN, doc.y, { width: contentWidth(doc) });
+    }
+    doc.moveDown(0.4);
+  });
+};
+
+const renderGame = (doc: Doc, game: Game) => {
+  if (game.category) {
+    doc
+      .font(FONTS.bold)
+      .fontSize(9)
+      .fillColor(COLOURS.sprout)
+      .text(prettifyFilterValue(game.category).toUpperCase(), MARGIN);
+  }
+  doc.font(FONTS.bold).fontSize(24).fillColor(COLOURS.ink).text(game.name, MARGIN);
+  if (game.description) {
+    doc.moveDown(0.3);
+    bodyText(doc).fontSize(11.5).fillColor(COLOURS.muted).text(game.description);
+  }
+  doc.moveDown(0.8);
+
+  drawStatCards(doc, game);
+
+  if (game.equipment) {
+    sectionHeading(doc, 'Equipment needed');
+    bodyText(doc).text(game.equipment, MARGIN);
+  }
+
+  const rulesMarkdown = formatRulesMarkdown(game.generalRules);
+  if (rulesMarkdown) {
+    sectionHeading(doc, 'How to play');
+    drawRules(doc, rulesMarkdown);
+  }
+
+  if (game.variations.length > 0) {
+    sectionHeading(doc, 'Variations');
+    drawList(doc, game.variations.map(stripInlineMarkdown), true);
+  }
+};
+
+const writePdf = (game: Game, filePath: string) =>
+  new Promise<void>((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      // Fixed date keeps the output byte-identical between builds
+      info: { Title: game.name, Author: 'ItsAllFunAndGames', CreationDate: new Date(0) },
+    });
+    const stream = createWriteStream(filePath);
+    stream.on('finish', resolve);
+    stream.on('error', reject);
+    doc.pipe(stream);
+    renderGame(doc, game);
+    doc.end();
+  });
+
+async function generatePdfs() {
+  console.log('--- Generating game PDFs ---');
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+  await mkdir(OUTPUT_DIR, { recursive: true });
+
+  for (const game of games) {
+    await writePdf(game, path.join(OUTPUT_DIR, `${game.id}.pdf`));
+  }
+
+  console.log(`✅ Generated ${games.length} PDFs in ${OUTPUT_DIR}`);
+  console.log('--- PDF generation complete ---');
+}
+
+generatePdfs().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
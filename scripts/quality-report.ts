@@ -0,0 +1,219 @@
+// scripts/quality-report.ts
+import fs from 'fs';
+import path from 'path';
+import { GAMES_FILE, GAMES_SOURCE_DIR, readGameRecords, usesGameSourceDirectory } from '../lib/gameSources';
+import { NOT_DUPLICATES_FILE, pairKey, readNotDuplicates, type NotDuplicateEntry } from '../lib/nearDuplicates';
+import { normaliseRecord } from '../lib/normalise';
+import {
+  FLAGGED_RECORDS_FILE,
+  QUALITY_EXPORT_DIRECTORY,
+  QUALITY_REPORT_FILE,
+  QUALITY_THRESHOLDS_FILE,
+  buildQualityReport,
+  checkQualityThresholds,
+  formatFlaggedRecordsCsv,
+  percentage,
+  type QualityReport,
+  type QualityThresholds,
+} from '../lib/qualityReport';
+import { publicFileExists } from '../lib/validation';
+
+const USAGE = `Usage: npm run quality -- [options]
+
+Prints the data quality report and exits non-zero when it breaks a limit in
+${QUALITY_THRESHOLDS_FILE}.
+
+Options:
+  --thresholds <file>  Read limits from another file
+  --not-duplicate <id> <id> [--note <text>]
+                       Add a pair to ${NOT_DUPLICATES_FILE} so it is no longer
+                       listed as a possible duplicate
+  --export [dir]       Write ${QUALITY_REPORT_FILE} and ${FLAGGED_RECORDS_FILE} to dir
+                       (default public/${QUALITY_EXPORT_DIRECTORY}) instead of checking limits
+  --all-lint           List every content lint finding, not just the first few per rule
+  --no-color           Plain output (also set by NO_COLOR or a non-terminal)`;
+
+const EXPORT_DIR = path.join('public', QUALITY_EXPORT_DIRECTORY);
+
+const args = process.argv.slice(2);
+const optionValue = (name: string) => {
+  const index = args.indexOf(name);
+  const value = index === -1 ? undefined : args[index + 1];
+  return value && !value.startsWith('--') ? value : undefined;
+};
+
+const useColour =
+  !args.includes('--no-color') &&
+  !process.env.NO_COLOR &&
+  (Boolean(process.stdout.isTTY) || Boolean(process.env.FORCE_COLOR));
+const paint = (code: number) => (text: string) =>
+  useColour ? `\x1b[${code}m${text}\x1b[0m` : text;
+const bold = paint(1);
+const dim = paint(2);
+const red = paint(31);
+const green = paint(32);
+const yellow = paint(33);
+
+// Findings shown per lint rule unless --all-lint is passed
+const LINT_EXAMPLES = 5;
+
+const byShare = (value: number) => (value >= 80 ? green : value >= 50 ? yellow : red);
+
+const bar = (value: number, width = 20) => {
+  const filled = Math.round((value / 100) * width);
+  return `${'█'.repeat(filled)}${dim('░'.repeat(width - filled))}`;
+};
+
+const printReport = (report: QualityReport, source: string) => {
+  console.log(bold(`Data quality report for ${source}`));
+  console.log(
+    `${report.totalRecords} records: ${green(`${report.includedCount} published`)}, ` +
+      `${report.excludedCount > 0 ? red(`${report.excludedCount} excluded`) : '0 excluded'}, ` +
+      `${report.flaggedRecords.length} flagged.`
+  );
+
+  console.log(bold('\nCoverage'));
+  const width = Math.max(...report.coverageMetrics.map((metric) => metric.label.length));
+  report.coverageMetrics.forEach((metric) => {
+    const share = percentage(metric.present, metric.total);
+    console.log(
+      `  ${metric.label.padEnd(width)}  ${byShare(share)(bar(share))} ` +
+        `${byShare(share)(`${share}%`.padStart(6))} ${dim(`${metric.present}/${metric.total}`)}`
+    );
+  });
+
+  if (report.flaggedRecords.length > 0) {
+    console.log(bold('\nRecords needing attention'));
+    report.flaggedRecords.forEach((record) => {
+      const status = record.included ? yellow('included') : red('excluded');
+      const name = record.normalisedName || record.rawName || '(unnamed)';
+      console.log(`  entry #${record.index + 1} ${name} ${dim(`(${record.derivedId || 'no id'})`)} ${status}`);
+      record.validationIssues.forEach((note) => console.log(`    ${red('✖')} ${note}`));
+      record.issues.forEach((note) => console.log(`    ${red('✖')} ${note}`));
+      record.warnings.forEach((note) => console.log(`    ${yellow('⚠')} ${note}`));
+    });
+  }
+
+  const { pairs, ignoredCount, staleIgnores } = report.nearDuplicates;
+  if (pairs.length > 0 || staleIgnores.length > 0) {
+    console.log(bold('\nPossible duplicates'));
+    pairs.forEach((pair) => {
+      console.log(`  ${pair.names[0]} ${dim('≈')} ${pair.names[1]} ${yellow(pair.score.toFixed(2))}`);
+      console.log(`    ${dim(`${pair.reasons.join('; ')}. Not the same game? --not-duplicate ${pair.ids.join(' ')}`)}`);
+    });
+    staleIgnores.forEach((entry) =>
+      console.log(`  ${yellow('⚠')} ${NOT_DUPLICATES_FILE} lists ${entry.ids.join(' and ')}, which no longer both exist`)
+    );
+    if (ignoredCount > 0) console.log(dim(`  ${ignoredCount} pair${ignoredCount === 1 ? '' : 's'} marked as not duplicates.`));
+  }
+
+  if (report.unresolvedRelated.length > 0) {
+    console.log(bold('\nUnresolved related games'));
+    report.unresolvedRelated.forEach((reference) =>
+      console.log(`  ${reference.gameId} ${dim('→')} “${reference.reference}”`)
+    );
+  }
+
+  const { findings, rules } = report.contentLint;
+  console.log(bold('\nContent lint'));
+  rules.forEach((rule) => {
+    const colour = rule.count === 0 ? green : rule.severity === 'error' ? red : yellow;
+    const fixable = rule.fixableCount > 0 ? dim(` (${rule.fixableCount} fixable)`) : '';
+    console.log(`  ${colour(`${rule.count}`.padStart(4))} ${rule.id} ${dim(`${rule.severity}: ${rule.description}`)}${fixable}`);
+    const matching = findings.filter((finding) => finding.ruleId === rule.id);
+    const shown = args.includes('--all-lint') ? matching : matching.slice(0, LINT_EXAMPLES);
+    shown.forEach((finding) =>
+      console.log(`       entry #${finding.index + 1} ${finding.name} ${dim(`› ${finding.path}`)}: ${finding.message}`)
+    );
+    if (shown.length < matching.length) console.log(dim(`       … and ${matching.length - shown.length} more`));
+  });
+  if (findings.some((finding) => finding.fixable)) {
+    console.log(dim('  Run `npm run games -- fix` to apply the autofixes.'));
+  }
+
+  if (report.appliedFixes.length > 0) {
+    console.log(bold('\nFixes applied on load'));
+    report.appliedFixes.forEach((fix) => console.log(`  ${fix.label}: ${fix.count}`));
+  }
+};
+
+const readThresholds = (filePath: string, required: boolean): QualityThresholds => {
+  if (!fs.existsSync(filePath)) {
+    if (required) throw new Error(`Thresholds file not found: ${filePath}`);
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as QualityThresholds;
+};
+
+// Records a checked pair in the committed ignore list, keeping it sorted
+const markNotDuplicate = (ids: string[]) => {
+  if (ids.length !== 2 || ids.some((id) => !id || id.startsWith('--')) || ids[0] === ids[1]) {
+    throw new Error('--not-duplicate expects two different game ids.');
+  }
+  // A typo would otherwise be committed as a pair that never matches
+  const knownIds = new Set(readGameRecords().map((record) => normaliseRecord(record).id));
+  const unknown = ids.filter((id) => !knownIds.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`No game with id ${unknown.map((id) => `"${id}"`).join(' or ')}.`);
+  }
+  const entries = readNotDuplicates();
+  const key = pairKey(ids[0], ids[1]);
+  if (entries.some((entry) => pairKey(entry.ids[0], entry.ids[1]) === key)) {
+    console.log(`${ids.join(' and ')} are already marked as not duplicates.`);
+    return;
+  }
+  const note = optionValue('--note');
+  const entry: NotDuplicateEntry = { ids: [...ids].sort() as [string, string], ...(note ? { note } : {}) };
+  const next = [...entries, entry].sort((a, b) =>
+    pairKey(a.ids[0], a.ids[1]).localeCompare(pairKey(b.ids[0], b.ids[1]))
+  );
+  fs.writeFileSync(NOT_DUPLICATES_FILE, `${JSON.stringify(next, null, 2)}\n`);
+  console.log(`✅ Marked ${ids.join(' and ')} as not duplicates in ${NOT_DUPLICATES_FILE}.`);
+};
+
+function qualityReport() {
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const pairIndex = args.indexOf('--not-duplicate');
+  if (pairIndex !== -1) {
+    markNotDuplicate(args.slice(pairIndex + 1, pairIndex + 3));
+    return;
+  }
+
+  const source = usesGameSourceDirectory() ? GAMES_SOURCE_DIR : GAMES_FILE;
+  const report = buildQualityReport(readGameRecords(), {
+    fileExists: publicFileExists,
+    notDuplicates: readNotDuplicates(),
+  });
+
+  if (args.includes('--export')) {
+    const directory = optionValue('--export') ?? EXPORT_DIR;
+    fs.mkdirSync(directory, { recursive: true });
+    const jsonPath = path.join(directory, QUALITY_REPORT_FILE);
+    const csvPath = path.join(directory, FLAGGED_RECORDS_FILE);
+    fs.writeFileSync(jsonPath, `${JSON.stringify(report, null, 2)}\n`);
+    fs.writeFileSync(csvPath, formatFlaggedRecordsCsv(report));
+    console.log(`✅ Wrote ${jsonPath} and ${csvPath}`);
+    return;
+  }
+
+  printReport(report, path.relative(process.cwd(), source));
+
+  const thresholdsFile = optionValue('--thresholds');
+  const breaches = checkQualityThresholds(
+    report,
+    readThresholds(thresholdsFile ?? QUALITY_THRESHOLDS_FILE, thresholdsFile !== undefined)
+  );
+  if (breaches.length > 0) {
+    console.error(bold(red(`\n${breaches.length} threshold${breaches.length === 1 ? '' : 's'} exceeded`)));
+    breaches.forEach((breach) => console.error(`  ${red('✖')} ${breach.threshold}: ${breach.message}`));
+    process.exitCode = 1;
+    return;
+  }
+  console.log(green('\n✅ Within all quality thresholds.'));
+}
+
+qualityReport();
@@ -0,0 +1,37 @@
+// scripts/record-coverage.ts
+import fs from 'fs';
+import {
+  COVERAGE_HISTORY_FILE,
+  appendCoverageSnapshot,
+  createCoverageSnapshot,
+  formatCoverageHistory,
+  readCoverageHistory,
+  today,
+} from '../lib/coverageHistory';
+import { readGameRecords } from '../lib/gameSources';
+import { buildQualityReport } from '../lib/qualityReport';
+
+// `--date YYYY-MM-DD` records the snapshot under another day
+const dateArgument = () => {
+  const index = process.argv.indexOf('--date');
+  if (index === -1) return today();
+  const date = process.argv[index + 1] ?? '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error('--date expects YYYY-MM-DD.');
+  return date;
+};
+
+function recordCoverage() {
+  const date = dateArgument();
+  const history = readCoverageHistory();
+  const snapshot = createCoverageSnapshot(date, buildQualityReport(readGameRecords()));
+  const next = appendCoverageSnapshot(history, snapshot);
+
+  fs.writeFileSync(COVERAGE_HISTORY_FILE, formatCoverageHistory(next));
+  const replaced = next.length === history.length;
+  console.log(
+    `✅ ${replaced ? 'Updated' : 'Added'} the ${date} coverage snapshot in ${COVERAGE_HISTORY_FILE} ` +
+      `(${next.length} snapshot${next.length === 1 ? '' : 's'}).`
+  );
+}
+
+recordCoverage();
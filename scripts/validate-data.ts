@@ -0,0 +1,41 @@
+// scripts/validate-data.ts
+import path from 'path';
+import {
+  GAMES_FILE,
+  GAMES_SOURCE_DIR,
+  readGameSources,
+  readGamesFile,
+  usesGameSourceDirectory,
+} from '../lib/gameSources';
+import { formatIssue, validateDataset, type DatasetIssue } from '../lib/validation';
+
+// `--media` checks only the images, so builds can require every local file to exist
+const isMediaIssue = (issue: DatasetIssue) => issue.path?.startsWith('media.') ?? false;
+
+function validateData() {
+  const mediaOnly = process.argv.includes('--media');
+  // In the directory layout issues are reported against each game's file
+  const sources = usesGameSourceDirectory() ? readGameSources() : null;
+  const records = sources ? sources.map((source) => source.record) : readGamesFile(GAMES_FILE);
+  const sourceNames = sources?.map((source) => path.relative(process.cwd(), source.filePath));
+
+  console.log(`--- Validating ${mediaOnly ? 'media in ' : ''}${sources ? GAMES_SOURCE_DIR : GAMES_FILE} ---`);
+  const validation = validateDataset(records);
+  const errors = mediaOnly ? validation.errors.filter(isMediaIssue) : validation.errors;
+  const warnings = mediaOnly ? validation.warnings.filter(isMediaIssue) : validation.warnings;
+
+  warnings.forEach((warning) => console.warn(`⚠️  ${formatIssue(warning, sourceNames)}`));
+  errors.forEach((error) => console.error(`❌ ${formatIssue(error, sourceNames)}`));
+
+  console.log(
+    `\n${records.length} records: ${errors.length} error${errors.length === 1 ? '' : 's'}, ` +
+      `${warnings.length} warning${warnings.length === 1 ? '' : 's'}.`
+  );
+  if (errors.length > 0) {
+    process.exitCode = 1;
+    return;
+  }
+  console.log(mediaOnly ? '✅ Every local image exists.' : '✅ Dataset is valid.');
+}
+
+validateData();
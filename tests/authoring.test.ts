@@ -0,0 +1,107 @@
+// tests/authoring.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  describeGameFields,
+  findGameIndexes,
+  findNewRecordProblems,
+  formatGamesJson,
+  gameFieldOrder,
+  orderGameKeys,
+  validateGameRecord,
+} from '../lib/authoring';
+
+describe('Canonical formatting', () => {
+  it('orders known keys by the schema and keeps unknown keys last', () => {
+    const ordered = orderGameKeys({ tags: [], extra: 1, name: 'Tag', id: 'tag' });
+    expect(Object.keys(ordered)).toEqual(['id', 'name', 'tags', 'extra']);
+    expect(gameFieldOrder).not.toContain('sourceText');
+  });
+
+  it('keeps short lists inline and wraps long ones', () => {
+    const long = Array.from({ length: 12 }, (_, index) => `rule number ${index}`);
+    const output = formatGamesJson([{ name: 'Tag', id: 'tag', tags: ['a', 'b'], generalRules: long }]);
+    expect(output).toContain('    "tags": ["a", "b"]\n');
+    expect(output).toContain('    "generalRules": [\n      "rule number 0",');
+    expect(output.startsWith('[\n  {\n    "id": "tag",\n    "name": "Tag",')).toBe(true);
+    expect(output.endsWith('}\n]\n')).toBe(true);
+  });
+
+  it('is stable when applied twice', () => {
+    const once = formatGamesJson([{ name: 'Tag', notes: null, links: [] }]);
+    expect(formatGamesJson(JSON.parse(once))).toBe(once);
+  });
+});
+
+describe('validateGameRecord', () => {
+  const records = [
+    { name: 'Tag' },
+    { id: 'tag', name: 'Tag again' },
+    { name: '  ' },
+    { name: 'Sardines', tags: 'hiding' },
+  ];
+
+  it('accepts records the loader would publish', () => {
+    expect(validateGameRecord(records, 0)).toEqual([]);
+  });
+
+  it('reports duplicate ids against the earlier entry', () => {
+    expect(validateGameRecord(records, 1)).toEqual(['id: "tag" is already used by entry #1']);
+  });
+
+  it('reports missing ids and schema failures by field', () => {
+    expect(validateGameRecord(records, 2)).toContain(
+      'id: unable to derive an id; add a name or an explicit id'
+    );
+    expect(validateGameRecord(records, 3).some((error) => error.startsWith('tags:'))).toBe(true);
+  });
+
+  it('finds records by explicit or derived id', () => {
+    expect(findGameIndexes(records, 'tag')).toEqual([0, 1]);
+  });
+});
+
+describe('findNewRecordProblems', () => {
+  // Entry #2 reuses entry #1's id, as the shipped games.json does
+  const records = [
+    { id: 'tag', name: 'Tag', tags: ['chase'] },
+    { id: 'tag', name: 'Tag again' },
+    { id: 'sardines', name: 'Sardines' },
+  ];
+
+  it('lets fmt rewrite every record of a dataset that already has a duplicate id', () => {
+    const formatted = JSON.parse(formatGamesJson(records));
+    expect(findNewRecordProblems(records, formatted, [0, 1, 2])).toEqual([]);
+  });
+
+  it('still rejects problems the write introduces', () => {
+    const next = [...records.slice(0, 2), { id: 'tag', name: 'Sardines', tags: 'hide' }];
+    expect(findNewRecordProblems(records, next, [2])).toEqual([
+      'entry #3: tags: Invalid input: expected array, received string',
+      'entry #3: id: "tag" is already used by entry #1',
+    ]);
+    expect(findNewRecordProblems(records, [...records, { name: '' }], [3])).toContain(
+      'entry #4: id: unable to derive an id; add a name or an explicit id'
+    );
+  });
+
+  it('rejects renaming a record onto the id of a later one', () => {
+    const previous = [{ id: 'tag', name: 'Tag' }, { id: 'sardines', name: 'Sardines' }];
+    const next = [{ id: 'sardines', name: 'Tag' }, previous[1]];
+    expect(findNewRecordProblems(previous, next, [0])).toEqual([
+      'entry #2: id: "sardines" is already used by entry #1',
+    ]);
+  });
+});
+
+describe('describeGameFields', () => {
+  it('reads prompt types from the schema', () => {
+    const fields = Object.fromEntries(describeGameFields().map((field) => [field.key, field]));
+    expect(fields.name).toMatchObject({ kind: 'text', required: true });
+    expect(fields.ageMin).toMatchObject({ kind: 'integer', required: false });
+    expect(fields.tags).toMatchObject({ kind: 'list' });
+    expect(fields.media).toMatchObject({ kind: 'media', required: false });
+    expect(fields.schemaVersion).toBeUndefined();
+    expect(fields.prepLevel.options).toEqual(['None', 'Little', 'Medium', 'High']);
+    expect(fields.setting).toMatchObject({ kind: 'list', options: ['Indoor', 'Outdoor'] });
+  });
+});
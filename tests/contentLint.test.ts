@@ -0,0 +1,115 @@
+// tests/contentLint.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  applyLintFixes,
+  contentLintRules,
+  findMarkdownProblems,
+  lintDataset,
+  summariseLintFindings,
+  type LintRule,
+} from '../lib/contentLint';
+
+const record = (fields: Record<string, unknown>) => ({
+  id: 'tag',
+  name: 'Tag',
+  description: 'One player is it and chases the others until they tag someone.',
+  generalRules: ['**Objective:** Avoid being tagged.'],
+  ...fields,
+});
+
+const findingsFor = (fields: Record<string, unknown>) =>
+  lintDataset([record(fields)]).map(({ ruleId, path, fixable }) => ({ ruleId, path, fixable }));
+
+describe('Content lint rules', () => {
+  it('passes a tidy record', () => {
+    expect(findingsFor({})).toEqual([]);
+  });
+
+  it('wants a stated objective first, and moves one found further down', () => {
+    expect(findingsFor({ generalRules: ['Pick someone to be it.'] })).toEqual([]);
+    expect(findingsFor({ generalRules: ['Form a circle; the last one standing wins.'] })).toEqual([]);
+    const rules = ['**How to Play:**', '1. Pick someone to be it.', '**How to Win:**', 'Avoid being tagged.'];
+    expect(findingsFor({ generalRules: rules })).toEqual([
+      { ruleId: 'rules-objective-first', path: 'generalRules.2', fixable: true },
+    ]);
+    expect(applyLintFixes(record({ generalRules: rules })).record.generalRules).toEqual([
+      '**How to Win:**',
+      'Avoid being tagged.',
+      '**How to Play:**',
+      '1. Pick someone to be it.',
+    ]);
+    const objectOfTheGame = ['Spread out.', 'The object of the game is to stay free.'];
+    expect(applyLintFixes(record({ generalRules: objectOfTheGame })).record.generalRules).toEqual([
+      'The object of the game is to stay free.',
+      'Spread out.',
+    ]);
+  });
+
+  it('flags descriptions outside the length limits', () => {
+    expect(findingsFor({ description: 'Chase game.' })).toEqual([
+      { ruleId: 'description-length', path: 'description', fixable: false },
+    ]);
+    expect(findingsFor({ description: 'Run. '.repeat(80) })).toHaveLength(1);
+  });
+
+  it('clears “None” equipment and kebab-cases tags', () => {
+    const fields = { equipment: 'None', tags: ['PE', 'Warm Up', 'warm-up'] };
+    expect(findingsFor(fields).map((finding) => finding.path)).toEqual([
+      'equipment',
+      'tags.0',
+      'tags.1',
+    ]);
+    const { record: fixed, applied } = applyLintFixes(record(fields));
+    expect(applied).toEqual(['equipment-none', 'tag-format']);
+    expect(fixed).toMatchObject({ equipment: null, tags: ['pe', 'warm-up'] });
+  });
+
+  it('finds broken Markdown in rules entries', () => {
+    expect(findMarkdownProblems('**Setup:** Spread out.')).toEqual([]);
+    expect(findMarkdownProblems('**Setup: Spread out.')).toEqual(['unbalanced ** bold markers']);
+    expect(findMarkdownProblems('See [the video](https://example.com')).toEqual([
+      'a link without its closing )',
+    ]);
+    expect(findMarkdownProblems('Shout `tag!')).toEqual(['an unclosed `code` span']);
+    expect(findingsFor({ generalRules: ['**Objective:** Win.', '**Setup: Spread out.'] })).toEqual([
+      { ruleId: 'rules-markdown', path: 'generalRules.1', fixable: false },
+    ]);
+  });
+});
+
+describe('lintDataset', () => {
+  it('skips records that are not published and runs any rules it is given', () => {
+    const noisy: LintRule = {
+      id: 'no-tag',
+      severity: 'error',
+      description: 'Nothing called Tag.',
+      check: (game) => (game.name === 'Tag' ? [{ path: 'name', message: 'Tag again.' }] : []),
+    };
+    const findings = lintDataset([record({}), record({}), { name: '' }], [noisy]);
+    expect(findings).toEqual([
+      {
+        ruleId: 'no-tag',
+        severity: 'error',
+        index: 0,
+        id: 'tag',
+        name: 'Tag',
+        path: 'name',
+        message: 'Tag again.',
+        fixable: false,
+      },
+    ]);
+  });
+
+  it('summarises every rule, errors first', () => {
+    const summary = summariseLintFindings(lintDataset([record({ equipment: 'none' })]));
+    expect(summary.map((rule) => rule.id)).toEqual([
+      'rules-markdown',
+      ...contentLintRules.filter((rule) => rule.severity === 'warning').map((rule) => rule.id),
+    ]);
+    expect(summary.find((rule) => rule.id === 'equipment-none')).toMatchObject({
+      count: 1,
+      hasFix: true,
+      fixableCount: 1,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// tests/coverageHistory.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  appendCoverageSnapshot,
+  buildCoverageTrends,
+  createCoverageSnapshot,
+  formatCoverageHistory,
+  type CoverageSnapshot,
+} from '../lib/coverageHistory';
+import { buildQualityReport } from '../lib/qualityReport';
+import { CURRENT_SCHEMA_VERSION } from '../lib/types';
+
+const snapshot = (date: string, metrics: CoverageSnapshot['metrics']): CoverageSnapshot => ({
+  date,
+  publishedCount: 4,
+  metrics,
+});
+
+describe('Coverage history', () => {
+  it('snapshots the coverage metrics of a report', () => {
+    const report = buildQualityReport([
+      { schemaVersion: CURRENT_SCHEMA_VERSION, id: 'tag', name: 'Tag', description: 'Chase.' },
+      { schemaVersion: CURRENT_SCHEMA_VERSION, id: 'it', name: 'It', description: null },
+    ]);
+    const taken = createCoverageSnapshot('2026-10-19', report);
+    expect(taken.date).toBe('2026-10-19');
+    expect(taken.publishedCount).toBe(2);
+    expect(taken.metrics.Descriptions).toEqual({ present: 1, total: 2 });
+  });
+
+  it('keeps one snapshot per day in date order', () => {
+    const history = [
+      snapshot('2026-10-01', { Descriptions: { present: 2, total: 4 } }),
+      snapshot('2026-10-10', { Descriptions: { present: 3, total: 4 } }),
+    ];
+    const replaced = appendCoverageSnapshot(
+      history,
+      snapshot('2026-10-10', { Descriptions: { present: 4, total: 4 } })
+    );
+    expect(replaced.map((entry) => entry.date)).toEqual(['2026-10-01', '2026-10-10']);
+    expect(replaced[1].metrics.Descriptions.present).toBe(4);
+
+    const backfilled = appendCoverageSnapshot(history, snapshot('2026-09-20', {}));
+    expect(backfilled.map((entry) => entry.date)).toEqual(['2026-09-20', '2026-10-01', '2026-10-10']);
+  });
+
+  it('builds a trend per current metric, with gaps before a metric existed', () => {
+    const history = [
+      snapshot('2026-10-01', { Descriptions: { present: 2, total: 4 } }),
+      snapshot('2026-10-10', {
+        Descriptions: { present: 3, total: 4 },
+        'Pictures added': { present: 1, total: 4 },
+      }),
+    ];
+    const trends = buildCoverageTrends(history, [
+      { label: 'Descriptions', present: 3, total: 4 },
+      { label: 'Pictures added', present: 1, total: 4 },
+      { label: 'External links added', present: 0, total: 4 },
+    ]);
+    expect(trends).toEqual([
+      { label: 'Descriptions', points: [50, 75], first: 50, latest: 75, change: 25 },
+      { label: 'Pictures added', points: [null, 25], first: 25, latest: 25, change: 0 },
+      { label: 'External links added', points: [null, null], first: null, latest: null, change: null },
+    ]);
+  });
+
+  it('writes one line per metric and reads back as the same history', () => {
+    const history = [snapshot('2026-10-01', { Descriptions: { present: 2, total: 4 } })];
+    const contents = formatCoverageHistory(history);
+    expect(contents).toContain('"Descriptions": {"present":2,"total":4}');
+    expect(JSON.parse(contents)).toEqual(history);
+    expect(formatCoverageHistory([])).toBe('[]\n');
+  });
+});
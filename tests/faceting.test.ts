@@ -0,0 +1,170 @@
+// tests/faceting.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  countFacetOptions,
+  countRangePresets,
+  filterGames,
+  type FacetSelections,
+} from '../lib/faceting';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, unknown>) =>
+  GameSchema.parse({ name: String(fields.id), ...fields });
+
+const games = [
+  game({ id: 'tag', category: 'Wide', tags: ['tag', 'active'], playersMin: 6, energyLevel: 'High' }),
+  game({ id: 'ball', category: 'Wide', tags: ['ball', 'active'], playersMin: 2, playersMax: 4 }),
+  game({ id: 'memory', category: 'Party', tags: ['memory'], prepLevel: 'Little', energyLevel: 'Calm' }),
+];
+
+const selections = (
+  overrides: Partial<Omit<FacetSelections, 'modes'>> = {},
+  modes: Partial<FacetSelections['modes']> = {},
+): FacetSelections => ({
+  category: [],
+  tags: [],
+  traditionality: [],
+  prepLevel: [],
+  skillsDeveloped: [],
+  regionalPopularity: [],
+  energyLevel: [],
+  setting: [],
+  minSpace: [],
+  surfaces: [],
+  age: null,
+  players: null,
+  duration: null,
+  ...overrides,
+  modes: {
+    category: 'any',
+    tags: 'any',
+    traditionality: 'any',
+    prepLevel: 'any',
+    skillsDeveloped: 'any',
+    regionalPopularity: 'any',
+    energyLevel: 'any',
+    setting: 'any',
+    minSpace: 'any',
+    surfaces: 'any',
+    ...modes,
+  },
+});
+
+const options = {
+  category: ['Wide', 'Party', 'Group'],
+  tags: ['active', 'ball', 'memory', 'tag'],
+  traditionality: [],
+  prepLevel: ['Little'],
+  skillsDeveloped: [],
+  regionalPopularity: [],
+  energyLevel: [],
+  setting: [],
+  minSpace: [],
+  surfaces: [],
+};
+
+const ids = (list: { id: string }[]) => list.map(item => item.id);
+
+describe('Faceting engine', () => {
+  it('should OR options within a group and AND across groups', () => {
+    expect(ids(filterGames(games, selections({ tags: ['tag', 'memory'] })))).toEqual([
+      'tag',
+      'memory',
+    ]);
+    expect(
+      ids(filterGames(games, selections({ tags: ['tag', 'memory'], category: ['Wide'] }))),
+    ).toEqual(['tag']);
+  });
+
+  it('should require every option in "all" mode', () => {
+    expect(
+      ids(filterGames(games, selections({ tags: ['tag', 'active'] }, { tags: 'all' }))),
+    ).toEqual(['tag']);
+  });
+
+  it('should drop games with any option in "exclude" mode', () => {
+    expect(
+      ids(filterGames(games, selections({ tags: ['ball', 'memory'] }, { tags: 'exclude' }))),
+    ).toEqual(['tag']);
+    expect(
+      ids(filterGames(games, selections({ category: ['Wide'] }, { category: 'exclude' }))),
+    ).toEqual(['memory']);
+  });
+
+  it('should combine facets with range selections', () => {
+    expect(
+      ids(filterGames(games, selections({ tags: ['active'], players: { min: 8, max: 8 } }))),
+    ).toEqual(['tag']);
+  });
+
+  it('should leave games without an energy level out of energy selections', () => {
+    expect(ids(filterGames(games, selections({ energyLevel: ['High', 'Lively'] })))).toEqual(['tag']);
+    expect(
+      ids(filterGames(games, selections({ energyLevel: ['High'] }, { energyLevel: 'exclude' }))),
+    ).toEqual(['ball', 'memory']);
+  });
+
+  it('should count options against the other active groups only', () => {
+    const counts = countFacetOptions(games, selections({ category: ['Wide'] }), options);
+    expect(counts.tags).toEqual({ tag: 1, ball: 1, active: 2 });
+    // The category group ignores its own selection so alternatives stay visible
+    expect(counts.category).toEqual({ Wide: 2, Party: 1 });
+  });
+
+  it('should omit options that would return no results', () => {
+    const counts = countFacetOptions(games, selections({ tags: ['ball'] }), options);
+    expect(counts.category.Party).toBeUndefined();
+    expect(counts.prepLevel).toEqual({});
+  });
+
+  it('should count options on top of the current selection in "all" and "exclude" modes', () => {
+    const all = countFacetOptions(games, selections({ tags: ['active'] }, { tags: 'all' }), options);
+    expect(all.tags).toEqual({ active: 2, ball: 1, tag: 1 });
+
+    const exclude = countFacetOptions(
+      games,
+      selections({ tags: ['ball'] }, { tags: 'exclude' }),
+      options,
+    );
+    expect(exclude.tags).toEqual({ active: 1, ball: 2, memory: 1, tag: 1 });
+  });
+
+  it('should count range presets in preset order', () => {
+    const counts = countRangePresets(games, selections({ category: ['Wide'] }));
+    // Presets: 2–4, 5–10, 11–20, 21+
+    expect(counts.players).toEqual([1, 1, 1, 1]);
+  });
+});
+
+describe('Space scale', () => {
+  const spaced = [
+    game({ id: 'cards', minSpace: 'Table' }),
+    game({ id: 'charades', minSpace: 'Room' }),
+    game({ id: 'dodgeball', minSpace: 'Hall' }),
+    game({ id: 'capture-the-flag', minSpace: 'Field' }),
+    game({ id: 'anywhere' }),
+  ];
+
+  it('should match games that fit within the selected space, keeping unset ones', () => {
+    expect(ids(filterGames(spaced, selections({ minSpace: ['Hall'] })))).toEqual([
+      'cards',
+      'charades',
+      'dodgeball',
+      'anywhere',
+    ]);
+    expect(ids(filterGames(spaced, selections({ minSpace: ['Table'] })))).toEqual(['cards', 'anywhere']);
+    expect(ids(filterGames(spaced, selections({ minSpace: ['Table', 'Room'] })))).toEqual([
+      'cards',
+      'charades',
+      'anywhere',
+    ]);
+  });
+
+  it('should count each space by the games that fit in it', () => {
+    const counts = countFacetOptions(spaced, selections(), {
+      ...options,
+      minSpace: ['Table', 'Room', 'Hall', 'Field'],
+    });
+    expect(counts.minSpace).toEqual({ Table: 2, Room: 3, Hall: 4, Field: 5 });
+  });
+});
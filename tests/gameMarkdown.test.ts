@@ -0,0 +1,134 @@
+// tests/gameMarkdown.test.ts
+import { describe, it, expect } from 'vitest';
+import { formatGameMarkdown, parseGameMarkdown } from '../lib/gameMarkdown';
+import { GAMES_FILE, readGamesFile } from '../lib/gameSources';
+import { GameSchema } from '../lib/types';
+
+const markdown = `---
+id: tag
+name: Tag
+ageMin: 4
+tags: [chasing, running]
+---
+
+## Rules
+
+**Setup:** Mark out
+a playing area.
+
+1. One player is "it".
+2. Tag someone to make them "it".
+
+**Ending:** Stop when:
+- time is up, or
+- everyone is "it".
+
+## Variations
+
+- Freeze tag
+- 1. Numbered by accident
+
+## History
+
+Played everywhere.
+`;
+
+describe('Markdown game files', () => {
+  it('parses frontmatter and sections into the games.json shape', () => {
+    const record = parseGameMarkdown(markdown);
+    expect(record).toMatchObject({
+      id: 'tag',
+      name: 'Tag',
+      ageMin: 4,
+      tags: ['chasing', 'running'],
+      generalRules: [
+        '**Setup:** Mark out\na playing area.',
+        '1. One player is "it".',
+        '2. Tag someone to make them "it".',
+        '**Ending:** Stop when:\n- time is up, or\n- everyone is "it".',
+      ],
+      variations: ['Freeze tag', '1. Numbered by accident'],
+      historicalNotes: 'Played everywhere.',
+    });
+    expect(Object.keys(record).slice(0, 3)).toEqual(['id', 'name', 'ageMin']);
+    expect(GameSchema.safeParse(record).success).toBe(true);
+  });
+
+  it('accepts CRLF line endings and missing sections', () => {
+    const record = parseGameMarkdown('---\r\nname: Tag\r\n---\r\n');
+    expect(record).toEqual({ name: 'Tag' });
+  });
+
+  it('rejects files it cannot map onto a game', () => {
+    expect(() => parseGameMarkdown('## Rules\n\nRun.')).toThrow(/frontmatter/);
+    expect(() => parseGameMarkdown('---\nname: Tag\n---\n\n## Setup\n\nRun.')).toThrow(
+      /Unknown section "## Setup"/
+    );
+    expect(() => parseGameMarkdown('---\nname: Tag\n---\n\nRun.')).toThrow(/before the first section/);
+    expect(() => parseGameMarkdown('---\nname: Tag\nvariations: [Freeze]\n---\n')).toThrow(
+      /variations belong in their own section/
+    );
+  });
+
+  it('writes empty fields in the frontmatter and rules as Markdown', () => {
+    const output = formatGameMarkdown({
+      name: 'Tag',
+      id: 'tag',
+      description: '',
+      ageMin: null,
+      tags: [],
+      generalRules: ['**Setup:** Mark out an area.', '- Run', '- Hide'],
+      variations: [],
+      historicalNotes: null,
+    });
+    expect(output).toBe(
+      '---\nid: tag\nname: Tag\ndescription: ""\nageMin: null\nvariations: []\ntags: []\nhistoricalNotes: null\n---\n\n## Rules\n\n**Setup:** Mark out an area.\n\n- Run\n- Hide\n'
+    );
+  });
+
+  it('round-trips a games.json record', () => {
+    const record = {
+      id: 'tag',
+      name: 'Tag',
+      description: 'Chase and tag.',
+      category: null,
+      ageMin: 4,
+      ageMax: 12,
+      playersMin: 3,
+      playersMax: null,
+      recommendedPlayersText: null,
+      durationMin: 5,
+      durationMax: null,
+      equipment: null,
+      generalRules: ['One player is "it".', '- Tag to pass it on', '- No tag-backs'],
+      variations: ['Freeze tag'],
+      skillsDeveloped: ['agility'],
+      tags: ['chasing'],
+      regionalPopularity: [],
+      regionalNames: ['Tig', 'It'],
+      keywords: [],
+      traditionality: 'traditional',
+      historicalNotes: 'Very old.',
+      notes: 'Keep boundaries clear: no walls.',
+      relatedGames: [],
+      links: [],
+      prepLevel: 'no prep',
+      energyLevel: 'high',
+      setting: ['outside'],
+      minSpace: null,
+      surfaces: [],
+      media: [{ url: '/media/tag.jpg', alt: 'Children running', caption: null, kind: 'playing' }],
+      difficulty: null,
+    };
+    const markdownCopy = formatGameMarkdown(record);
+    expect(parseGameMarkdown(markdownCopy)).toEqual(record);
+    expect(formatGameMarkdown(parseGameMarkdown(markdownCopy))).toBe(markdownCopy);
+  });
+
+  it('round-trips every shipped game, including rules entries that hold their own list', () => {
+    const records = readGamesFile(GAMES_FILE) as Record<string, unknown>[];
+    const beans = records.find((record) => record.id === 'the-bean-game');
+    expect((beans?.generalRules as string[]).some((entry) => entry.includes('\n1. '))).toBe(true);
+    records.forEach((record) => expect(parseGameMarkdown(formatGameMarkdown(record))).toEqual(record));
+  });
+});
@@ -0,0 +1,147 @@
+// tests/gameSources.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  compileGameSources,
+  formatGameSource,
+  gameIdFromFile,
+  nextAddedOrder,
+  readGameRecords,
+  readGameSources,
+  splitGameRecords,
+  usesGameSourceDirectory,
+} from '../lib/gameSources';
+import { sortGames } from '../lib/sorting';
+import { GameSchema } from '../lib/types';
+
+let root: string;
+let directory: string;
+let gamesFile: string;
+
+const writeGame = (fileName: string, record: unknown) =>
+  writeFileSync(path.join(directory, fileName), JSON.stringify(record));
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'game-sources-'));
+  directory = path.join(root, 'data', 'games');
+  gamesFile = path.join(root, 'games.json');
+  writeFileSync(gamesFile, JSON.stringify([{ id: 'published', name: 'Published' }]));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('Game source layout', () => {
+  it('falls back to games.json when the directory is missing or empty', () => {
+    expect(usesGameSourceDirectory(directory)).toBe(false);
+    mkdirSync(directory, { recursive: true });
+    expect(readGameRecords(directory, gamesFile)).toEqual([{ id: 'published', name: 'Published' }]);
+  });
+
+  it('reads game files in name order and ignores other files', () => {
+    mkdirSync(directory, { recursive: true });
+    writeGame('tag.json', { id: 'tag', name: 'Tag' });
+    writeGame('hopscotch.json', { name: 'Hopscotch' });
+    writeFileSync(path.join(directory, 'README.txt'), 'notes');
+
+    expect(usesGameSourceDirectory(directory)).toBe(true);
+    expect(readGameRecords(directory, gamesFile)).toEqual([
+      { id: 'hopscotch', name: 'Hopscotch' },
+      { id: 'tag', name: 'Tag' },
+    ]);
+    expect(readGameSources(directory).map((source) => gameIdFromFile(source.filePath))).toEqual([
+      'hopscotch',
+      'tag',
+    ]);
+  });
+
+  it('reads Markdown game files into the same shape', () => {
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(path.join(directory, 'tag.md'), '---\nname: Tag\n---\n\n## Rules\n\nRun.\n');
+    const [record] = readGameRecords(directory, gamesFile) as Record<string, unknown>[];
+    expect(record).toEqual({ id: 'tag', name: 'Tag', generalRules: ['Run.'] });
+  });
+
+  it('names the file when its contents cannot be parsed', () => {
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(path.join(directory, 'tag.json'), '{ "name": ');
+    expect(() => readGameSources(directory)).toThrow(/Invalid game file tag\.json/);
+  });
+
+  it('compiles the directory into a formatted games.json', () => {
+    mkdirSync(directory, { recursive: true });
+    writeGame('tag.json', { tags: ['chasing'], name: 'Tag' });
+    const { contents, count, problems } = compileGameSources(directory);
+    expect(count).toBe(1);
+    expect(problems).toEqual([]);
+    expect(contents).toBe(
+      '[\n  {\n    "id": "tag",\n    "name": "Tag",\n    "tags": ["chasing"]\n  }\n]\n'
+    );
+  });
+
+  it('reports files whose record declares a different id', () => {
+    mkdirSync(directory, { recursive: true });
+    writeGame('tig.json', { id: 'tag', name: 'Tag' });
+    expect(compileGameSources(directory).problems).toEqual([
+      'tig.json: declares id "tag"; rename the file to tag.json',
+    ]);
+  });
+
+  it('formats a single record for its file', () => {
+    expect(formatGameSource('data/games/tag.json', { name: 'Tag', id: 'tag' })).toBe(
+      '{\n  "id": "tag",\n  "name": "Tag"\n}\n'
+    );
+  });
+});
+
+describe('Splitting and compiling', () => {
+  // Newest last, and deliberately not in name order
+  const published = [
+    { id: 'tag', name: 'Tag' },
+    { id: 'sardines', name: 'Sardines' },
+    { name: 'Hopscotch' },
+  ];
+
+  it('keeps "Recently added" newest first after split and compile', () => {
+    mkdirSync(directory, { recursive: true });
+    splitGameRecords(published).sources.forEach(({ id, record }) => {
+      const filePath = path.join(directory, `${id}.json`);
+      writeFileSync(filePath, formatGameSource(filePath, record));
+    });
+
+    const compiled = (JSON.parse(compileGameSources(directory).contents) as unknown[]).map((record) =>
+      GameSchema.parse(record)
+    );
+    expect(compiled.map((game) => [game.id, game.addedOrder])).toEqual([
+      ['tag', 1],
+      ['sardines', 2],
+      ['hopscotch', 3],
+    ]);
+
+    const sourceOrder = new Map(compiled.map((game, index) => [game.id, index]));
+    expect(sortGames(compiled, 'recent', { hasQuery: false, sourceOrder }).map((game) => game.id)).toEqual([
+      'hopscotch',
+      'sardines',
+      'tag',
+    ]);
+  });
+
+  it('writes the first record for each id and reports the rest, as the loader does', () => {
+    const { sources, dropped } = splitGameRecords([...published, { id: 'tag', name: 'Tag again' }]);
+    expect(sources.map(({ id }) => id)).toEqual(['tag', 'sardines', 'hopscotch']);
+    expect(dropped).toEqual([{ index: 3, id: 'tag', firstIndex: 0 }]);
+  });
+
+  it('puts files without an order after the rest, and numbers new games after them all', () => {
+    mkdirSync(directory, { recursive: true });
+    writeGame('zebra.json', { id: 'zebra', name: 'Zebra', addedOrder: 1 });
+    writeGame('ant.json', { id: 'ant', name: 'Ant' });
+    writeGame('bee.json', { id: 'bee', name: 'Bee', addedOrder: 2 });
+    const records = readGameRecords(directory, gamesFile);
+    expect(records.map((record) => (record as { id: string }).id)).toEqual(['zebra', 'bee', 'ant']);
+    expect(nextAddedOrder(records)).toBe(4);
+  });
+});
@@ -0,0 +1,85 @@
+// tests/media.test.ts
+import { describe, it, expect } from 'vitest';
+import { findMediaIssues, isLocalMedia, mediaSrc, pickThumbnail } from '../lib/media';
+import { gameMigrations, migrateGameRecord } from '../lib/migrations';
+import { normaliseRawGame } from '../lib/normalise';
+import { GameSchema } from '../lib/types';
+import { validateDataset } from '../lib/validation';
+
+const existing = new Set(['/media/tag-setup.jpg']);
+const fileExists = (url: string) => existing.has(url);
+
+describe('Media urls', () => {
+  it('prefixes local images with the base path', () => {
+    expect(isLocalMedia('/media/tag.jpg')).toBe(true);
+    expect(isLocalMedia('//cdn.example.com/tag.jpg')).toBe(false);
+    expect(mediaSrc('/media/tag.jpg')).toBe('/Itsallfunandgames/media/tag.jpg');
+    expect(mediaSrc('/Itsallfunandgames/media/tag.jpg')).toBe('/Itsallfunandgames/media/tag.jpg');
+    expect(mediaSrc('https://example.com/tag.jpg')).toBe('https://example.com/tag.jpg');
+  });
+
+  it('uses the first image as the thumbnail', () => {
+    const game = GameSchema.parse({
+      id: 'tag',
+      name: 'Tag',
+      media: [
+        { url: '/a.jpg', alt: 'A', kind: 'playing' },
+        { url: '/b.jpg', alt: 'B', kind: 'setup' },
+      ],
+    });
+    expect(pickThumbnail(game)?.url).toBe('/a.jpg');
+    expect(pickThumbnail(GameSchema.parse({ id: 'tag', name: 'Tag' }))).toBeNull();
+  });
+});
+
+describe('Media checks', () => {
+  it('flags missing local files, unusable urls and missing alt text', () => {
+    const issues = findMediaIssues(
+      [
+        { url: '/media/tag-setup.jpg', alt: 'Cones in a square', kind: 'setup' },
+        { url: '/media/missing.jpg', alt: 'Players running', kind: 'playing' },
+        { url: 'media/relative.jpg', alt: ' ', kind: 'diagram' },
+        { url: 'https://example.com/tag.jpg', kind: 'playing' },
+      ],
+      fileExists
+    );
+    expect(issues.map(({ severity, path }) => [severity, path])).toEqual([
+      ['error', 'media.1.url'],
+      ['error', 'media.2.url'],
+      ['warning', 'media.2.alt'],
+      ['warning', 'media.3.alt'],
+    ]);
+  });
+
+  it('reports media problems through dataset validation', () => {
+    const { errors, warnings } = validateDataset(
+      [{ id: 'tag', name: 'Tag', media: [{ url: '/media/missing.jpg', kind: 'setup' }] }],
+      { fileExists }
+    );
+    expect(errors).toEqual([expect.objectContaining({ path: 'media.0.url' })]);
+    expect(warnings).toEqual([expect.objectContaining({ path: 'media.0.alt' })]);
+  });
+});
+
+describe('Image migration', () => {
+  it('moves setupImageUrl and playingImageUrl into media', () => {
+    const { record, applied } = migrateGameRecord(
+      { name: 'Tag', setupImageUrl: ' /media/tag-setup.jpg ', playingImageUrl: '' },
+      gameMigrations,
+      2
+    );
+    expect(applied).toEqual(['Move setupImageUrl and playingImageUrl into media']);
+    expect(record).toEqual({
+      name: 'Tag',
+      schemaVersion: 2,
+      media: [{ url: '/media/tag-setup.jpg', alt: '', caption: null, kind: 'setup' }],
+    });
+  });
+
+  it('loads migrated records with a valid media list', () => {
+    const game = GameSchema.parse(
+      normaliseRawGame({ name: 'Tag', playingImageUrl: '/media/tag.jpg' })
+    );
+    expect(game.media).toEqual([{ url: '/media/tag.jpg', alt: '', caption: null, kind: 'playing' }]);
+  });
+});
@@ -0,0 +1,140 @@
+// tests/migrations.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  GameMigration,
+  findUnknownKeys,
+  inferSetting,
+  migrateGameRecord,
+  readSchemaVersion,
+} from '../lib/migrations';
+import { normaliseRawGame } from '../lib/normalise';
+import { CURRENT_SCHEMA_VERSION, GameSchema } from '../lib/types';
+import { validateDataset } from '../lib/validation';
+
+// Two made-up steps: rename `title` to `name`, then split a `players` string
+const migrations: GameMigration[] = [
+  {
+    from: 2,
+    description: 'Split players into playersMin/playersMax',
+    migrate: ({ players, ...record }) => {
+      const [min, max] = String(players).split('-').map(Number);
+      return { ...record, playersMin: min, playersMax: max };
+    },
+  },
+  {
+    from: 1,
+    description: 'Rename title to name',
+    migrate: ({ title, ...record }) => ({ ...record, name: title }),
+  },
+];
+
+describe('Schema versions', () => {
+  it('treats records without a version as version 1', () => {
+    expect(readSchemaVersion({ name: 'Tag' })).toBe(1);
+    expect(readSchemaVersion({ schemaVersion: 3 })).toBe(3);
+    expect(readSchemaVersion({ schemaVersion: '2' })).toBeNull();
+  });
+
+  it('applies each step in turn up to the target version', () => {
+    const result = migrateGameRecord({ title: 'Tag', players: '3-8' }, migrations, 3);
+    expect(result).toEqual({
+      record: { name: 'Tag', playersMin: 3, playersMax: 8, schemaVersion: 3 },
+      fromVersion: 1,
+      applied: ['Rename title to name', 'Split players into playersMin/playersMax'],
+    });
+  });
+
+  it('starts from the version the record declares', () => {
+    const { record, applied } = migrateGameRecord(
+      { schemaVersion: 2, name: 'Tag', players: '2-4' },
+      migrations,
+      3
+    );
+    expect(applied).toHaveLength(1);
+    expect(record).toMatchObject({ playersMin: 2, playersMax: 4, schemaVersion: 3 });
+  });
+
+  it('only lists steps that change the record, but still sets the version', () => {
+    // Only empty image fields to move, but a `night` tag to infer a setting from
+    const result = migrateGameRecord({ name: 'Tag', setupImageUrl: '', tags: ['night'] });
+    expect(result.applied).toEqual(['Infer setting, minimum space and surfaces from tags and category']);
+    expect(result.record).toMatchObject({ setting: ['Outdoor'], schemaVersion: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('throws when a step is missing', () => {
+    expect(() => migrateGameRecord({ name: 'Tag' }, migrations.slice(0, 1), 3)).toThrow(
+      'No migration from schema version 1 to 2.'
+    );
+  });
+
+  it('leaves newer records alone for the schema to reject', () => {
+    const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, id: 'tag', name: 'Tag' };
+    expect(migrateGameRecord(newer).record).toBe(newer);
+    const validation = GameSchema.safeParse(normaliseRawGame(newer));
+    expect(validation.success).toBe(false);
+    expect(validation.error?.issues[0].path).toEqual(['schemaVersion']);
+  });
+
+  it('stamps loaded records with the current version', () => {
+    expect(GameSchema.parse(normaliseRawGame({ name: 'Tag' })).schemaVersion).toBe(
+      CURRENT_SCHEMA_VERSION
+    );
+  });
+});
+
+describe('Unknown keys', () => {
+  it('lists keys the schema does not declare', () => {
+    expect(findUnknownKeys({ id: 'tag', name: 'Tag', difficulty: null, sourceText: {} })).toEqual([
+      'difficulty',
+    ]);
+  });
+
+  it('are reported as warnings per record', () => {
+    const { warnings } = validateDataset([{ id: 'tag', name: 'Tag', difficulty: 'easy' }]);
+    expect(warnings).toEqual([
+      expect.objectContaining({ index: 0, path: 'difficulty', severity: 'warning' }),
+    ]);
+  });
+});
+
+describe('Setting migration', () => {
+  it('infers an outdoor field from wide games', () => {
+    expect(inferSetting({ category: 'wide games', tags: [] })).toMatchObject({
+      setting: ['Outdoor'],
+      minSpace: 'Field',
+      surfaces: ['Grass'],
+    });
+  });
+
+  it('lets classroom-friendly games be played indoors in a room', () => {
+    expect(inferSetting({ tags: ['wide-area', 'classroom-friendly'] })).toMatchObject({
+      setting: ['Indoor', 'Outdoor'],
+      minSpace: 'Room',
+      surfaces: ['Indoor floor', 'Grass'],
+    });
+  });
+
+  it('keeps values that are already set and leaves unknowns empty', () => {
+    expect(
+      inferSetting({ category: 'Wide', setting: ['Indoor'], minSpace: 'Hall', surfaces: [] })
+    ).toMatchObject({ setting: ['Indoor'], minSpace: 'Hall', surfaces: ['Grass'] });
+    expect(inferSetting({ category: 'Party', tags: ['memory'] })).toMatchObject({
+      setting: [],
+      minSpace: null,
+      surfaces: [],
+    });
+  });
+
+  it('canonicalises authored setting values on load', () => {
+    const game = GameSchema.parse(
+      normaliseRawGame({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        name: 'Tag',
+        setting: ['outside', 'Outdoor', 'on the moon'],
+        minSpace: 'gym',
+        surfaces: ['lawn'],
+      })
+    );
+    expect(game).toMatchObject({ setting: ['Outdoor'], minSpace: 'Hall', surfaces: ['Grass'] });
+  });
+});
@@ -0,0 +1,70 @@
+// tests/nearDuplicates.test.ts
+import { describe, it, expect } from 'vitest';
+import { findNearDuplicates } from '../lib/nearDuplicates';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, unknown>) => GameSchema.parse(fields);
+
+const games = [
+  game({
+    id: 'blind-mans-buff',
+    name: 'Blind Man’s Buff',
+    description: 'One blindfolded player tries to catch and identify the others by touch.',
+    keywords: ['blindfold', 'tag', 'chasing', 'party'],
+  }),
+  game({
+    id: 'blind-mans-bluff',
+    name: 'Blind Man’s Bluff',
+    regionalNames: ['Blindman'],
+    description: 'A blindfolded player tries to catch the others and identify them by touch.',
+    keywords: ['blindfold', 'chasing', 'tag'],
+  }),
+  game({ id: 'kingey', name: 'Kingey', description: 'Bounce a ball between four squares.' }),
+  game({
+    id: 'four-square',
+    name: 'Four Square',
+    regionalNames: ['Kingey'],
+    description: 'Players stand in squares and knock the ball out of the king’s court.',
+  }),
+  game({
+    id: 'sardines',
+    name: 'Sardines',
+    description: 'One player hides and everyone who finds them squeezes into the hiding place.',
+    keywords: ['hiding', 'seeking'],
+  }),
+];
+
+describe('findNearDuplicates', () => {
+  const { pairs } = findNearDuplicates(games);
+
+  it('pairs games whose name matches a regional name', () => {
+    const kingey = pairs.find((pair) => pair.ids.join('|') === 'four-square|kingey');
+    expect(kingey?.signals.name).toBe(1);
+    expect(kingey?.reasons[0]).toBe('Both known as “kingey”');
+  });
+
+  it('combines similar names, descriptions and keywords into one score', () => {
+    expect(pairs[0].ids).toEqual(['blind-mans-bluff', 'blind-mans-buff']);
+    expect(pairs[0].signals.name).toBeGreaterThan(0.8);
+    expect(pairs[0].signals.description).toBeGreaterThan(0.3);
+    expect(pairs[0].signals.keywords).toBeGreaterThan(0.4);
+    expect(pairs[0].reasons).toHaveLength(3);
+  });
+
+  it('leaves out unrelated games', () => {
+    expect(pairs.some((pair) => pair.ids.includes('sardines'))).toBe(false);
+    expect(pairs.map((pair) => pair.score)).toEqual([...pairs.map((pair) => pair.score)].sort((a, b) => b - a));
+  });
+
+  it('skips pairs marked as not duplicates in either order, and reports stale entries', () => {
+    const result = findNearDuplicates(games, {
+      ignored: [
+        { ids: ['kingey', 'four-square'], note: 'Different games.' },
+        { ids: ['tag', 'tig'] },
+      ],
+    });
+    expect(result.pairs.map((pair) => pair.ids.join('|'))).toEqual(['blind-mans-bluff|blind-mans-buff']);
+    expect(result.ignoredCount).toBe(1);
+    expect(result.staleIgnores).toEqual([{ ids: ['tag', 'tig'] }]);
+  });
+});
@@ -1,6 +1,9 @@
 // tests/normalisation.test.ts
 import { describe, it, expect } from 'vitest';
 import { normaliseNullishString } from '../lib/loadGames';
+import { normaliseRecord, type NormalisationFixType } from '../lib/normalise';
+import { CURRENT_SCHEMA_VERSION } from '../lib/types';
+import { canonicalise, isKnownTerm } from '../lib/vocabulary';
 
 describe('Data Normalisation', () => {
   it('should convert "null," to null', () => {
@@ -14,4 +17,114 @@ describe('Data Normalisation', () => {
   it('should return null for empty strings', () => {
     expect(normaliseNullishString('')).toBeNull();
   });
-});
\ No newline at end of file
+});
+describe('Vocabulary canonicalisation', () => {
+  it('should match canonical values regardless of case', () => {
+    expect(canonicalise('category', 'physical activity')).toBe('Physical Activity');
+  });
+
+  it('should map aliases onto canonical values', () => {
+    expect(canonicalise('prepLevel', 'no prep')).toBe('None');
+    expect(canonicalise('prepLevel', '  Very little ')).toBe('Little');
+    expect(canonicalise('prepLevel', 'A lot but worth it!')).toBe('High');
+    expect(canonicalise('traditionality', 'modern')).toBe('Contemporary');
+    expect(canonicalise('energyLevel', 'Rowdy')).toBe('High');
+    expect(canonicalise('energyLevel', 'seated')).toBe('Calm');
+  });
+
+  it('should return null for unknown and unrecognised values', () => {
+    expect(canonicalise('prepLevel', 'Unknown')).toBeNull();
+    expect(canonicalise('prepLevel', 'a bucket of sand')).toBeNull();
+    expect(isKnownTerm('prepLevel', 'Unknown')).toBe(true);
+    expect(isKnownTerm('prepLevel', 'a bucket of sand')).toBe(false);
+  });
+});
+
+// Records at the current version, so migrations only show up when asked for
+const current = (fields: Record<string, unknown>) => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  id: 'tag',
+  name: 'Tag',
+  ...fields,
+});
+
+const fixesOfType = (raw: unknown, type: NormalisationFixType) =>
+  normaliseRecord(raw).fixes.filter((fix) => fix.type === type);
+
+describe('normaliseRecord', () => {
+  it('returns a clean record untouched, with no fixes or issues', () => {
+    const result = normaliseRecord(current({ category: 'Wide' }));
+    expect(result).toMatchObject({ id: 'tag', fixes: [], warnings: [], errors: [] });
+    expect(result.game).toMatchObject({ id: 'tag', name: 'Tag', category: 'Wide' });
+  });
+
+  it('lists each field it trims', () => {
+    expect(fixesOfType(current({ name: ' Tag ', equipment: 'Ball\n' }), 'trim')).toEqual([
+      { type: 'trim', path: 'name', message: 'Trimmed surrounding whitespace.' },
+      { type: 'trim', path: 'equipment', message: 'Trimmed surrounding whitespace.' },
+    ]);
+  });
+
+  it('lists each migration step that changes the record', () => {
+    const fixes = fixesOfType({ id: 'tag', name: 'Tag', setupImageUrl: '/media/tag.jpg', tags: ['night'] }, 'migrate');
+    expect(fixes).toHaveLength(CURRENT_SCHEMA_VERSION - 1);
+    expect(fixes[0]).toMatchObject({ path: null, message: 'Move setupImageUrl and playingImageUrl into media' });
+  });
+
+  it('leaves out migration steps with nothing to do', () => {
+    expect(fixesOfType({ id: 'tag', name: 'Tag', setupImageUrl: '', tags: ['memory'] }, 'migrate')).toEqual([]);
+  });
+
+  it('derives a missing id from the name', () => {
+    const result = normaliseRecord(current({ id: undefined, name: 'Stuck in the Mud' }));
+    expect(result.id).toBe('stuck-in-the-mud');
+    expect(result.fixes).toEqual([
+      expect.objectContaining({ type: 'derive-id', path: 'id' }),
+    ]);
+  });
+
+  it('clears "null" text', () => {
+    const result = normaliseRecord(current({ description: 'null,' }));
+    expect(result.record.description).toBeNull();
+    expect(result.fixes).toEqual([
+      expect.objectContaining({ type: 'null-string', path: 'description' }),
+    ]);
+  });
+
+  it('swaps inverted ranges', () => {
+    const result = normaliseRecord(current({ durationMin: 30, durationMax: 10 }));
+    expect(result.game).toMatchObject({ durationMin: 10, durationMax: 30 });
+    expect(result.fixes).toEqual([
+      {
+        type: 'swap-range',
+        path: 'durationMin',
+        message: 'Duration range inverted (30–10); values swapped.',
+      },
+    ]);
+  });
+
+  it('canonicalises vocabulary terms and keeps the authored text', () => {
+    const result = normaliseRecord(current({ prepLevel: 'no prep', surfaces: ['Grass', 'lawn'] }));
+    expect(result.game).toMatchObject({ prepLevel: 'None', surfaces: ['Grass'] });
+    expect(result.game?.sourceText.prepLevel).toBe('no prep');
+    expect(result.fixes.map((fix) => [fix.type, fix.path])).toEqual([
+      ['canonicalise', 'prepLevel'],
+      ['canonicalise', 'surfaces.1'],
+    ]);
+  });
+
+  it('warns about values it drops and reports records it cannot load', () => {
+    const dropped = normaliseRecord(current({ category: 'Interplanetary', difficulty: 'easy' }));
+    expect(dropped.game).not.toBeNull();
+    expect(dropped.warnings.map((warning) => [warning.type, warning.path])).toEqual([
+      ['vocabulary', 'category'],
+      ['unknown-field', 'difficulty'],
+    ]);
+
+    expect(normaliseRecord({ description: 'Nameless' }).errors.map((error) => error.type)).toEqual([
+      'missing-id',
+      'schema',
+    ]);
+    expect(normaliseRecord('tag')).toMatchObject({ game: null, errors: [{ type: 'not-object' }] });
+  });
+});
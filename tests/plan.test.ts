@@ -0,0 +1,52 @@
+// tests/plan.test.ts
+import { describe, it, expect } from 'vitest';
+import { splitEquipment, summarisePlan } from '../lib/plan';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, unknown>) =>
+  GameSchema.parse({ name: String(fields.id), ...fields });
+
+const games = [
+  game({ id: 'warm-up', ageMin: 5, ageMax: 11, playersMin: 2, equipment: 'None' }),
+  game({ id: 'wide', ageMin: 8, ageMax: 14, playersMin: 10, equipment: 'Cones, bibs' }),
+  game({ id: 'cool-down', ageMin: 12, playersMax: 8, equipment: 'cones; A ball.' }),
+];
+
+const plan = (...gameIds: string[]) => ({
+  title: '',
+  slots: gameIds.map((gameId, index) => ({ id: String(index), gameId, minutes: 15 })),
+});
+
+describe('Session plan summary', () => {
+  it('should split free-text equipment and ignore "None"', () => {
+    expect(splitEquipment('Cones, bibs')).toEqual(['Cones', 'bibs']);
+    expect(splitEquipment('None')).toEqual([]);
+    expect(splitEquipment(null)).toEqual([]);
+  });
+
+  it('should total time and merge equipment across slots', () => {
+    const summary = summarisePlan(plan('warm-up', 'wide', 'cool-down'), games);
+    expect(summary.totalMinutes).toBe(45);
+    expect(summary.equipment).toEqual([
+      { item: 'Cones', games: ['wide', 'cool-down'] },
+      { item: 'bibs', games: ['wide'] },
+      { item: 'A ball', games: ['cool-down'] },
+    ]);
+  });
+
+  it('should intersect age and player ranges', () => {
+    const summary = summarisePlan(plan('warm-up', 'wide'), games);
+    expect(summary.age).toEqual({ min: 8, max: 11, conflict: null });
+    expect(summary.players).toEqual({ min: 10, max: null, conflict: null });
+  });
+
+  it('should flag ranges that cannot all be satisfied', () => {
+    const summary = summarisePlan(plan('warm-up', 'wide', 'cool-down'), games);
+    expect(summary.age.conflict).toEqual({ lowest: 'warm-up', highest: 'cool-down' });
+    expect(summary.players.conflict).toEqual({ lowest: 'cool-down', highest: 'wide' });
+  });
+
+  it('should report slots whose game has been removed', () => {
+    expect(summarisePlan(plan('retired'), games).missingGameIds).toEqual(['retired']);
+  });
+});
@@ -0,0 +1,62 @@
+// tests/print.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  buildPrintHref,
+  chunk,
+  formatRulesMarkdown,
+  markdownToBlocks,
+  parsePrintGameIds,
+  parsePrintLayout,
+} from '../lib/print';
+
+describe('Print links', () => {
+  it('round-trips game ids and only keeps supported layouts', () => {
+    const href = buildPrintHref(['tag', 'sardines'], 2);
+    const params = new URLSearchParams(href.split('?')[1]);
+    expect(parsePrintGameIds(params.get('games'))).toEqual(['tag', 'sardines']);
+    expect(parsePrintLayout(params.get('per'))).toBe(2);
+    expect(parsePrintLayout('3')).toBe(4);
+    expect(buildPrintHref(['tag'], 4)).toBe('/print?games=tag');
+  });
+
+  it('drops blanks and repeats', () => {
+    expect(parsePrintGameIds('tag,, tag ,sardines')).toEqual(['tag', 'sardines']);
+    expect(parsePrintGameIds(null)).toEqual([]);
+  });
+
+  it('splits cards into sheets', () => {
+    expect(chunk([1, 2, 3, 4, 5], 4)).toEqual([[1, 2, 3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('formatRulesMarkdown', () => {
+  it('keeps list items together and separates paragraphs', () => {
+    expect(formatRulesMarkdown(['Intro.', '1. First', '2. Second', ' ', 'Outro.'])).toBe(
+      'Intro.\n\n1. First\n2. Second\n\nOutro.'
+    );
+  });
+
+  it('returns null when there are no rules', () => {
+    expect(formatRulesMarkdown(['', '  '])).toBeNull();
+  });
+});
+
+describe('markdownToBlocks', () => {
+  it('splits headings, paragraphs and lists', () => {
+    const markdown = '## Setup\nPlayers stand\nin a circle.\n\n1. **Pick** a leader\n2. Start\n- Safe [zone](http://x)\n\nHave _fun_.';
+    expect(markdownToBlocks(markdown)).toEqual([
+      { kind: 'heading', text: 'Setup' },
+      { kind: 'paragraph', text: 'Players stand in a circle.' },
+      { kind: 'list', ordered: true, items: ['Pick a leader', 'Start'] },
+      { kind: 'list', ordered: false, items: ['Safe zone'] },
+      { kind: 'paragraph', text: 'Have fun.' },
+    ]);
+  });
+
+  it('leaves snake_case and lone asterisks alone', () => {
+    expect(markdownToBlocks('Use team_a * 2')).toEqual([
+      { kind: 'paragraph', text: 'Use team_a * 2' },
+    ]);
+  });
+});
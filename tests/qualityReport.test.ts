@@ -0,0 +1,96 @@
+// tests/qualityReport.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  buildQualityReport,
+  checkQualityThresholds,
+  formatFlaggedRecordsCsv,
+} from '../lib/qualityReport';
+import { CURRENT_SCHEMA_VERSION } from '../lib/types';
+
+const record = (fields: Record<string, unknown>) => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  description: 'A game.',
+  ...fields,
+});
+
+const rawRecords = [
+  record({ id: 'tag', name: 'Tag' }),
+  record({ id: 'tag', name: 'Tag, "again"' }),
+  record({ id: 'hopscotch', name: 'Hopscotch', description: null, ageMin: 9, ageMax: 5 }),
+];
+
+describe('Quality report', () => {
+  const report = buildQualityReport(rawRecords);
+
+  it('publishes the first record for each id and flags the rest', () => {
+    expect(report).toMatchObject({ totalRecords: 3, includedCount: 2, excludedCount: 1 });
+    expect(report.duplicateGroups).toEqual([
+      { id: 'tag', count: 2, names: ['Tag', 'Tag, "again"'], indices: [1, 2] },
+    ]);
+    expect(report.flaggedRecords.map((flagged) => [flagged.index, flagged.included])).toEqual([
+      [1, false],
+      [0, true],
+      [2, true],
+    ]);
+  });
+
+  it('measures coverage over the published games', () => {
+    const descriptions = report.coverageMetrics.find((metric) => metric.label === 'Descriptions');
+    expect(descriptions).toEqual({ label: 'Descriptions', present: 1, total: 2 });
+  });
+
+  it('lists possible duplicates among published games unless marked as not duplicates', () => {
+    const records = [
+      record({ id: 'four-square', name: 'Four Square', regionalNames: ['Kingey'] }),
+      record({ id: 'kingey', name: 'Kingey' }),
+    ];
+    const listed = buildQualityReport(records);
+    expect(listed.nearDuplicates.pairs.map((pair) => pair.ids)).toEqual([['four-square', 'kingey']]);
+    expect(checkQualityThresholds(listed, { maxNearDuplicates: 0 })).toHaveLength(1);
+
+    const ignored = buildQualityReport(records, {
+      notDuplicates: [{ ids: ['kingey', 'four-square'] }],
+    });
+    expect(ignored.nearDuplicates).toMatchObject({ pairs: [], ignoredCount: 1 });
+  });
+
+  it('writes one CSV row per note, quoting where needed', () => {
+    const lines = formatFlaggedRecordsCsv(report).trimEnd().split('\n');
+    expect(lines[0]).toBe('entry,id,name,status,kind,note');
+    expect(lines[1]).toBe(
+      '2,tag,"Tag, ""again""",excluded,issue,Duplicate id; first seen at entry #1.'
+    );
+    expect(lines).toContain(
+      '3,hopscotch,Hopscotch,included,warning,ageMin: Age range inverted (9–5); values swapped.'
+    );
+  });
+});
+
+describe('Quality thresholds', () => {
+  const report = buildQualityReport(rawRecords);
+
+  it('passes when every count and coverage is within its limit', () => {
+    expect(
+      checkQualityThresholds(report, {
+        maxExcludedRecords: 1,
+        maxDuplicateGroups: 1,
+        minCoverage: { Descriptions: 50 },
+      })
+    ).toEqual([]);
+  });
+
+  it('reports each limit that is exceeded', () => {
+    const breaches = checkQualityThresholds(report, {
+      maxExcludedRecords: 0,
+      maxLintWarnings: 0,
+      minCoverage: { Descriptions: 75, Spelling: 10 },
+    });
+    expect(breaches.map((breach) => [breach.threshold, breach.actual, breach.limit])).toEqual([
+      ['maxExcludedRecords', 1, 0],
+      // “A game.” is too short a description
+      ['maxLintWarnings', 1, 0],
+      ['minCoverage.Descriptions', 50, 75],
+      ['minCoverage.Spelling', 0, 10],
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+// tests/ranges.test.ts
+import { describe, it, expect } from 'vitest';
+import { hasRangeData, matchesRange, parseRangeParam, formatRangeParam } from '../lib/ranges';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, number | null>) =>
+  GameSchema.parse({ id: 'test', name: 'Test', ...fields });
+
+describe('Range filters', () => {
+  it('should round-trip open-ended ranges through the URL form', () => {
+    expect(parseRangeParam('7-')).toEqual({ min: 7, max: null });
+    expect(parseRangeParam('-10')).toEqual({ min: null, max: 10 });
+    expect(parseRangeParam('6')).toEqual({ min: 6, max: 6 });
+    expect(formatRangeParam({ min: 7, max: null })).toBe('7-');
+  });
+
+  it('should reject malformed values', () => {
+    expect(parseRangeParam('-')).toBeNull();
+    expect(parseRangeParam('lots')).toBeNull();
+  });
+
+  it('should treat a null maximum as open-ended', () => {
+    const openEnded = game({ playersMin: 4, playersMax: null });
+    expect(matchesRange(openEnded, 'players', { min: 30, max: 30 })).toBe(true);
+    expect(matchesRange(openEnded, 'players', { min: 2, max: 3 })).toBe(false);
+  });
+
+  it('should match when the game range overlaps the selection', () => {
+    const eightToEleven = game({ ageMin: 8, ageMax: 11 });
+    expect(matchesRange(eightToEleven, 'age', { min: 6, max: 6 })).toBe(false);
+    expect(matchesRange(eightToEleven, 'age', { min: 10, max: null })).toBe(true);
+  });
+
+  it('should keep games without a duration in duration filters', () => {
+    const quick = game({ durationMin: 5, durationMax: 10 });
+    const untimed = game({});
+    expect(matchesRange(quick, 'duration', { min: 20, max: 30 })).toBe(false);
+    expect(matchesRange(quick, 'duration', { min: null, max: 9 })).toBe(true);
+    expect(matchesRange(untimed, 'duration', { min: 20, max: 30 })).toBe(true);
+  });
+
+  it('should only offer ranges that some game has data for', () => {
+    const games = [game({ ageMin: 8 }), game({ playersMax: 12 })];
+    expect(hasRangeData(games, 'age')).toBe(true);
+    expect(hasRangeData(games, 'players')).toBe(true);
+    expect(hasRangeData(games, 'duration')).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+// tests/recommendations.test.ts
+import { describe, it, expect } from 'vitest';
+import { recommendGames, scoreSimilarity } from '../lib/recommendations';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, unknown>) =>
+  GameSchema.parse({ name: String(fields.id), ...fields });
+
+const games = [
+  game({
+    id: 'tag',
+    category: 'Physical Activity',
+    tags: ['chasing', 'outdoor'],
+    skillsDeveloped: ['agility'],
+    ageMin: 5,
+    ageMax: 12,
+    playersMin: 4,
+    playersMax: 20,
+    prepLevel: 'None',
+  }),
+  game({
+    id: 'stuck-in-the-mud',
+    category: 'Physical Activity',
+    tags: ['chasing', 'outdoor'],
+    skillsDeveloped: ['agility', 'teamwork'],
+    ageMin: 6,
+    ageMax: 12,
+    playersMin: 6,
+    playersMax: 20,
+    prepLevel: 'None',
+  }),
+  game({
+    id: 'bulldog',
+    category: 'Physical Activity',
+    tags: ['chasing'],
+    ageMin: 8,
+    ageMax: 14,
+    prepLevel: 'Little',
+  }),
+  game({ id: 'chain-tag', category: 'Physical Activity', tags: ['chasing'], ageMin: 8, ageMax: 14, prepLevel: 'Little' }),
+  game({ id: 'charades', category: 'Party', tags: ['acting'], ageMin: 10, prepLevel: 'High' }),
+];
+
+describe('scoreSimilarity', () => {
+  it('scores closer games higher and explains why', () => {
+    const close = scoreSimilarity(games[0], games[1]);
+    const loose = scoreSimilarity(games[0], games[2]);
+    expect(close.score).toBeGreaterThan(loose.score);
+    expect(close.reasons[0]).toBe('Shared tags: Chasing, Outdoor');
+    expect(close.reasons).toContain('Also a Physical Activity game');
+    expect(close.reasons).toContain('Same prep');
+  });
+
+  it('is symmetric', () => {
+    games.forEach((a) =>
+      games.forEach((b) => expect(scoreSimilarity(a, b).score).toBe(scoreSimilarity(b, a).score))
+    );
+  });
+
+  it('ignores missing data rather than penalising it', () => {
+    expect(scoreSimilarity(games[0], game({ id: 'blank' })).score).toBe(0);
+  });
+});
+
+describe('recommendGames', () => {
+  it('ranks best matches first and breaks ties by id', () => {
+    const recommendations = recommendGames(games);
+    expect(recommendations['tag'].map((entry) => entry.gameId)).toEqual([
+      'stuck-in-the-mud',
+      'bulldog',
+      'chain-tag',
+    ]);
+    expect(recommendations['bulldog'][0].gameId).toBe('chain-tag');
+  });
+
+  it('drops weak matches, excluded games and the game itself', () => {
+    const recommendations = recommendGames(games, { exclude: { tag: ['stuck-in-the-mud'] } });
+    expect(recommendations['tag'].map((entry) => entry.gameId)).toEqual(['bulldog', 'chain-tag']);
+    expect(recommendations['charades']).toEqual([]);
+  });
+
+  it('gives the same output whatever order the games arrive in', () => {
+    expect(recommendGames([...games].reverse())).toEqual(recommendGames(games));
+  });
+
+  it('respects the limit', () => {
+    expect(recommendGames(games, { limit: 1 })['tag']).toHaveLength(1);
+  });
+});
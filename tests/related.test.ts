@@ -0,0 +1,75 @@
+// tests/related.test.ts
+import { describe, it, expect } from 'vitest';
+import { buildNameIndex, resolveReference, resolveRelatedGames } from '../lib/related';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, unknown>) => GameSchema.parse(fields);
+
+const games = [
+  game({
+    id: 'button-button-whos-got-the-button',
+    name: 'Button, Button, Who’s Got the Button?',
+    relatedGames: ['Queenie', 'Pass the Ring', 'Queenie', 'Button, Button'],
+  }),
+  game({ id: 'queenie', name: 'Queenie', regionalNames: ["Queenie, Queenie, Who's Got the Ball?"] }),
+  game({ id: 'keep-away-monkey-in-the-middle', name: 'Keep Away (Monkey in the Middle)', relatedGames: ['Piggy in the Middle'] }),
+  game({ id: 'ringolevio', name: 'Ringolevio', regionalNames: ['Relievio'], relatedGames: ['monkey in the middle'] }),
+  game({ id: 'chain-tag', name: 'Chain Tag', relatedGames: ['relievio', 'Chain'] }),
+  game({ id: 'chain-reaction', name: 'Chain Reaction' }),
+];
+
+describe('resolveReference', () => {
+  const index = buildNameIndex(games);
+
+  it('matches names, regional names and ids', () => {
+    expect(resolveReference(index, 'queenie')).toMatchObject({ gameId: 'queenie', matchedBy: 'id' });
+    expect(resolveReference(index, 'Relievio')).toMatchObject({
+      gameId: 'ringolevio',
+      matchedBy: 'regionalName',
+    });
+    expect(resolveReference(index, 'Keep Away')).toMatchObject({ gameId: 'keep-away-monkey-in-the-middle', matchedBy: 'name' });
+  });
+
+  it('ignores quote style and bracketed asides', () => {
+    expect(resolveReference(index, "Button, Button, Who's Got the Button?")).toMatchObject({
+      gameId: 'button-button-whos-got-the-button',
+    });
+    expect(resolveReference(index, 'Queenie (classroom version)')).toMatchObject({ gameId: 'queenie' });
+  });
+
+  it('falls back to a unique name prefix', () => {
+    expect(resolveReference(index, 'Button, Button')).toMatchObject({
+      gameId: 'button-button-whos-got-the-button',
+      matchedBy: 'prefix',
+    });
+  });
+
+  it('reports ambiguous prefixes rather than guessing', () => {
+    expect(resolveReference(index, 'Chain')).toEqual({
+      candidates: ['chain-reaction', 'chain-tag'],
+    });
+  });
+});
+
+describe('resolveRelatedGames', () => {
+  const graph = resolveRelatedGames(games);
+
+  it('links games in authored order without repeats or self-links', () => {
+    expect(graph.related['button-button-whos-got-the-button']).toEqual(['queenie']);
+    expect(graph.related['ringolevio']).toEqual(['keep-away-monkey-in-the-middle']);
+    expect(graph.related['chain-tag']).toEqual(['ringolevio']);
+  });
+
+  it('lists references that match nothing', () => {
+    expect(graph.unresolved).toEqual([
+      { gameId: 'button-button-whos-got-the-button', gameName: games[0].name, reference: 'Pass the Ring', candidates: [] },
+      { gameId: 'keep-away-monkey-in-the-middle', gameName: games[2].name, reference: 'Piggy in the Middle', candidates: [] },
+      {
+        gameId: 'chain-tag',
+        gameName: 'Chain Tag',
+        reference: 'Chain',
+        candidates: ['chain-reaction', 'chain-tag'],
+      },
+    ]);
+  });
+});
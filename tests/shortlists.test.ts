@@ -0,0 +1,38 @@
+// tests/shortlists.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  createDefaultShortlists,
+  createShortlistId,
+  decodeShortlistParams,
+  encodeShortlistParams,
+} from '../lib/shortlists';
+
+describe('Shortlist sharing', () => {
+  it('round-trips a list through its query string', () => {
+    const shared = { name: 'Rainy day & more', gameIds: ['tag', 'stuck-in-the-mud'] };
+    const params = new URLSearchParams(encodeShortlistParams(shared));
+    expect(decodeShortlistParams(params)).toEqual(shared);
+  });
+
+  it('drops malformed and repeated ids', () => {
+    const params = new URLSearchParams('games=tag,,tag,<script>,wink-murder');
+    expect(decodeShortlistParams(params)).toEqual({
+      name: 'Shared shortlist',
+      gameIds: ['tag', 'wink-murder'],
+    });
+  });
+
+  it('ignores links without any games', () => {
+    expect(decodeShortlistParams(new URLSearchParams('name=Empty'))).toBeNull();
+    expect(decodeShortlistParams(new URLSearchParams('games=%20,'))).toBeNull();
+  });
+});
+
+describe('createShortlistId', () => {
+  it('slugifies the name and avoids clashes', () => {
+    const lists = createDefaultShortlists();
+    expect(createShortlistId('Rainy Day', lists)).toBe('rainy-day');
+    expect(createShortlistId('Favourites', lists)).toBe('favourites-2');
+    expect(createShortlistId('!!!', lists)).toBe('list');
+  });
+});
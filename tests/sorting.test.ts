@@ -0,0 +1,63 @@
+// tests/sorting.test.ts
+import { describe, it, expect } from 'vitest';
+import { sortGames } from '../lib/sorting';
+import { GameSchema } from '../lib/types';
+
+const game = (fields: Record<string, unknown>) =>
+  GameSchema.parse({ id: String(fields.name).toLowerCase(), ...fields });
+
+const games = [
+  game({ name: 'Charlie', prepLevel: 'Medium', ageMin: 8, playersMin: 4 }),
+  game({ name: 'alpha', prepLevel: null, ageMin: null, playersMin: 2 }),
+  game({ name: 'Bravo', prepLevel: 'None', ageMin: 5, playersMin: null }),
+];
+
+const sourceOrder = new Map(games.map((item, index) => [item.id, index]));
+const names = (list: { name: string }[]) => list.map(item => item.name);
+
+describe('Result sorting', () => {
+  it('should keep relevance order when a query is active', () => {
+    expect(names(sortGames(games, 'relevance', { hasQuery: true, sourceOrder }))).toEqual([
+      'Charlie',
+      'alpha',
+      'Bravo',
+    ]);
+  });
+
+  it('should fall back to case-insensitive name order without a query', () => {
+    expect(names(sortGames(games, 'relevance', { hasQuery: false, sourceOrder }))).toEqual([
+      'alpha',
+      'Bravo',
+      'Charlie',
+    ]);
+  });
+
+  it('should follow the prep level scale and put unknown prep last', () => {
+    expect(names(sortGames(games, 'prep', { hasQuery: false, sourceOrder }))).toEqual([
+      'Bravo',
+      'Charlie',
+      'alpha',
+    ]);
+  });
+
+  it('should put games without ages or player counts last', () => {
+    expect(names(sortGames(games, 'age', { hasQuery: false, sourceOrder }))).toEqual([
+      'Bravo',
+      'Charlie',
+      'alpha',
+    ]);
+    expect(names(sortGames(games, 'players', { hasQuery: false, sourceOrder }))).toEqual([
+      'alpha',
+      'Charlie',
+      'Bravo',
+    ]);
+  });
+
+  it('should list the last entries in the source file first for recently added', () => {
+    expect(names(sortGames(games, 'recent', { hasQuery: false, sourceOrder }))).toEqual([
+      'Bravo',
+      'alpha',
+      'Charlie',
+    ]);
+  });
+});
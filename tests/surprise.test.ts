@@ -0,0 +1,66 @@
+// tests/surprise.test.ts
+import { describe, it, expect } from 'vitest';
+import { pickSeededGame, rememberPick, rollSurprise, RECENT_PICK_LIMIT } from '../lib/surprise';
+import { GameSchema } from '../lib/types';
+
+const games = ['bulldog', 'charades', 'sardines', 'tag', 'wink-murder'].map((id) =>
+  GameSchema.parse({ id, name: id })
+);
+
+// Hands out seeds from a list, in order
+const seedsFrom = (seeds: string[]) => {
+  let index = 0;
+  return () => seeds[index++ % seeds.length];
+};
+
+describe('Seeded picks', () => {
+  it('gives the same game for the same seed, whatever the input order', () => {
+    const pick = pickSeededGame(games, 'campfire');
+    expect(pickSeededGame([...games].reverse(), 'campfire')).toEqual(pick);
+    expect(pickSeededGame(games, 'campfire')).toEqual(pick);
+  });
+
+  it('spreads seeds across the candidates', () => {
+    const picked = new Set(
+      Array.from({ length: 50 }, (_, index) => pickSeededGame(games, `seed-${index}`)?.id)
+    );
+    expect(picked.size).toBe(games.length);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(pickSeededGame([], 'campfire')).toBeNull();
+  });
+});
+
+describe('rollSurprise', () => {
+  const seeds = Array.from({ length: 50 }, (_, index) => `seed-${index}`);
+
+  it('skips recently picked games', () => {
+    const recent = games.slice(0, 4).map((game) => game.id);
+    const roll = rollSurprise(games, recent, seedsFrom(seeds));
+    expect(roll?.game.id).toBe('wink-murder');
+    expect(pickSeededGame(games, roll!.seed)?.id).toBe('wink-murder');
+  });
+
+  it('only avoids the latest pick once every game has come up', () => {
+    const recent = games.map((game) => game.id);
+    const roll = rollSurprise(games, recent, seedsFrom(seeds));
+    expect(roll?.game.id).not.toBe('wink-murder');
+  });
+
+  it('still picks the only candidate', () => {
+    const roll = rollSurprise(games.slice(0, 1), ['bulldog'], seedsFrom(seeds));
+    expect(roll?.game.id).toBe('bulldog');
+  });
+});
+
+describe('rememberPick', () => {
+  it('moves repeats to the end and caps the history', () => {
+    expect(rememberPick(['tag', 'sardines'], 'tag')).toEqual(['sardines', 'tag']);
+    const long = Array.from({ length: RECENT_PICK_LIMIT }, (_, index) => `game-${index}`);
+    const next = rememberPick(long, 'tag');
+    expect(next).toHaveLength(RECENT_PICK_LIMIT);
+    expect(next.at(-1)).toBe('tag');
+    expect(next[0]).toBe('game-1');
+  });
+});
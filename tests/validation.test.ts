@@ -0,0 +1,89 @@
+// tests/validation.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  assertValidDataset,
+  formatIssue,
+  isStrictValidation,
+  validateDataset,
+} from '../lib/validation';
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  id: 'tag',
+  name: 'Tag',
+  tags: ['chasing'],
+  ...overrides,
+});
+
+describe('Dataset validation', () => {
+  it('accepts a clean dataset', () => {
+    const result = validateDataset([record(), record({ id: 'hopscotch', name: 'Hopscotch' })]);
+    expect(result).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports duplicate ids against the later entry', () => {
+    const { errors } = validateDataset([record(), record({ name: 'Tig' })]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ index: 1, id: 'tag', path: 'id' });
+    expect(formatIssue(errors[0])).toBe(
+      'entry #2 (tag) › id: Duplicate id "tag"; first used by entry #1.'
+    );
+    expect(formatIssue(errors[0], ['data/games/tag.json', 'data/games/tig.json'])).toBe(
+      'data/games/tig.json › id: Duplicate id "tag"; first used by entry #1.'
+    );
+  });
+
+  it('reports schema failures with their field path', () => {
+    const { errors } = validateDataset([record({ tags: 'chasing' })]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ index: 0, path: 'tags' });
+  });
+
+  it('reports records with no id or name, and entries that are not objects', () => {
+    const { errors } = validateDataset([{ description: 'Nameless' }, 'tag']);
+    expect(errors.map((error) => [error.index, error.path])).toEqual([
+      [0, 'id'],
+      [0, 'name'],
+      [1, null],
+    ]);
+  });
+
+  it('points unresolved related games at their position in the list', () => {
+    const { errors } = validateDataset([
+      record({ relatedGames: ['Hopscotch', 'Stuck in the Mud'] }),
+      record({ id: 'hopscotch', name: 'Hopscotch' }),
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ index: 0, id: 'tag', path: 'relatedGames.1' });
+    expect(errors[0].message).toContain('Stuck in the Mud');
+  });
+
+  it('warns about values the loader fixes on its own', () => {
+    const { errors, warnings } = validateDataset([
+      record({ ageMin: 10, ageMax: 4, category: 'Interplanetary' }),
+    ]);
+    expect(errors).toEqual([]);
+    expect(warnings.map((warning) => warning.path)).toEqual(['ageMin', 'category']);
+  });
+});
+
+describe('Strict mode', () => {
+  it('is enabled only by GAMES_VALIDATION=strict', () => {
+    expect(isStrictValidation({ GAMES_VALIDATION: 'strict' })).toBe(true);
+    expect(isStrictValidation({ GAMES_VALIDATION: ' Strict ' })).toBe(true);
+    expect(isStrictValidation({ GAMES_VALIDATION: 'lenient' })).toBe(false);
+    expect(isStrictValidation({})).toBe(false);
+  });
+
+  it('throws with every error listed, but not for warnings alone', () => {
+    expect(() => assertValidDataset([record(), record()], 'games.json')).toThrow(
+      /games\.json failed strict validation with 1 error:\n {2}entry #2 \(tag\) › id/
+    );
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      expect(() => assertValidDataset([record({ ageMin: 10, ageMax: 4 })], 'games.json')).not.toThrow();
+    } finally {
+      console.warn = warn;
+    }
+  });
+});